@@ -5,6 +5,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
+  Bell,
   Car,
   LogIn,
   LogOut,
@@ -194,6 +195,13 @@ export const MobileMenu: React.FC = () => {
                 >
                   My Requests
                 </MobileMenuLink>
+                <MobileMenuLink
+                  href="/notifications"
+                  icon={<Bell className="text-primary size-5" />}
+                  onClick={closeMenu}
+                >
+                  Notifications
+                </MobileMenuLink>
                 <MobileMenuLink
                   href="/settings"
                   icon={<Settings className="text-primary size-5" />}
@@ -2,12 +2,13 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { format, startOfDay } from "date-fns";
+import { format, parse, startOfDay } from "date-fns";
 import GithubSlugger from "github-slugger";
 import { ArrowRightLeft, CalendarIcon, Search, Users } from "lucide-react";
 
 import { Button } from "@app/ui/button";
 import { Calendar } from "@app/ui/calendar";
+import { Input } from "@app/ui/input";
 import { Label } from "@app/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@app/ui/popover";
 import {
@@ -25,6 +26,35 @@ const slugger = new GithubSlugger();
 
 type SearchMode = "driver" | "passenger";
 
+/** Local time of day range to leave in, e.g. 07:00 to 10:00 */
+export interface TimeWindow {
+  from: string;
+  to: string;
+}
+
+const FLEXIBILITY_DAY_OPTIONS = [0, 1, 2, 3];
+
+function formatTimeOfDay(time: string) {
+  return format(parse(time, "HH:mm", new Date()), "h:mm a");
+}
+
+/** Short summary of the date, flexibility and time window for the button */
+function describeDeparture(
+  date: Date,
+  flexibilityDays: number,
+  timeWindow: TimeWindow | null,
+) {
+  return [
+    format(date, "PPP"),
+    flexibilityDays > 0 ? `±${flexibilityDays}d` : null,
+    timeWindow
+      ? `${formatTimeOfDay(timeWindow.from)}–${formatTimeOfDay(timeWindow.to)}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
 interface RideSearchProps {
   showLabels?: boolean;
   fromLocation?: PlacePrediction | null;
@@ -33,6 +63,10 @@ interface RideSearchProps {
   onToLocationChange?: (location: PlacePrediction | null) => void;
   date?: Date;
   onDateChange?: (date: Date | undefined) => void;
+  flexibilityDays?: number;
+  onFlexibilityDaysChange?: (days: number) => void;
+  timeWindow?: TimeWindow | null;
+  onTimeWindowChange?: (timeWindow: TimeWindow | null) => void;
   mode?: SearchMode;
   onModeChange?: (mode: SearchMode) => void;
 }
@@ -59,6 +93,8 @@ export function RideSearchWithState({
     initialToLocation,
   );
   const [date, setDate] = useState<Date | undefined>(initialDate);
+  const [flexibilityDays, setFlexibilityDays] = useState(0);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow | null>(null);
   const [mode, setMode] = useState<SearchMode>(initialMode);
   return (
     <RideSearch
@@ -69,6 +105,10 @@ export function RideSearchWithState({
       onToLocationChange={setToLocation}
       date={date}
       onDateChange={setDate}
+      flexibilityDays={flexibilityDays}
+      onFlexibilityDaysChange={setFlexibilityDays}
+      timeWindow={timeWindow}
+      onTimeWindowChange={setTimeWindow}
       mode={mode}
       onModeChange={setMode}
     />
@@ -83,6 +123,10 @@ export function RideSearch({
   onToLocationChange,
   date,
   onDateChange,
+  flexibilityDays = 0,
+  onFlexibilityDaysChange,
+  timeWindow = null,
+  onTimeWindowChange,
   onModeChange,
   mode = "driver",
 }: RideSearchProps) {
@@ -106,6 +150,13 @@ export function RideSearch({
 
     if (date) {
       params.set("date", format(date, "yyyy-MM-dd"));
+      if (flexibilityDays > 0) {
+        params.set("flex", String(flexibilityDays));
+      }
+      if (timeWindow) {
+        params.set("leaveAfter", timeWindow.from);
+        params.set("leaveBefore", timeWindow.to);
+      }
     }
 
     router.push(`/search/${slug}?${params.toString()}`);
@@ -201,11 +252,13 @@ export function RideSearch({
             <PopoverTrigger asChild>
               <Button
                 variant="outline"
-                className="h-9 w-full justify-start text-left font-normal lg:w-48"
+                className="h-9 w-full justify-start text-left font-normal lg:w-56"
               >
                 <CalendarIcon className="text-muted-foreground size-4" />
                 {date ? (
-                  format(date, "PPP")
+                  <span className="truncate">
+                    {describeDeparture(date, flexibilityDays, timeWindow)}
+                  </span>
                 ) : (
                   <span className="text-muted-foreground">Pick a date</span>
                 )}
@@ -217,11 +270,89 @@ export function RideSearch({
                 selected={date}
                 onSelect={(newDate) => {
                   onDateChange?.(newDate);
-                  setCalendarOpen(false);
                 }}
                 disabled={(date) => date < startOfDay(new Date())}
                 initialFocus
               />
+              <div className="space-y-3 border-t p-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Flexibility</Label>
+                  <div className="flex gap-1">
+                    {FLEXIBILITY_DAY_OPTIONS.map((days) => (
+                      <Button
+                        key={days}
+                        type="button"
+                        size="sm"
+                        variant={
+                          flexibilityDays === days ? "default" : "outline"
+                        }
+                        onClick={() => onFlexibilityDaysChange?.(days)}
+                      >
+                        {days === 0
+                          ? "Exact"
+                          : `±${days} day${days > 1 ? "s" : ""}`}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Leaving between</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label="Earliest departure"
+                      value={timeWindow?.from ?? ""}
+                      onChange={(e) =>
+                        onTimeWindowChange?.(
+                          e.target.value
+                            ? {
+                                from: e.target.value,
+                                to: timeWindow?.to ?? "23:59",
+                              }
+                            : null,
+                        )
+                      }
+                    />
+                    <span className="text-muted-foreground text-sm">and</span>
+                    <Input
+                      type="time"
+                      aria-label="Latest departure"
+                      value={timeWindow?.to ?? ""}
+                      onChange={(e) =>
+                        onTimeWindowChange?.(
+                          e.target.value
+                            ? {
+                                from: timeWindow?.from ?? "00:00",
+                                to: e.target.value,
+                              }
+                            : null,
+                        )
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      onDateChange?.(undefined);
+                      onFlexibilityDaysChange?.(0);
+                      onTimeWindowChange?.(null);
+                    }}
+                  >
+                    Any time
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => setCalendarOpen(false)}
+                  >
+                    Done
+                  </Button>
+                </div>
+              </div>
             </PopoverContent>
           </Popover>
         </div>
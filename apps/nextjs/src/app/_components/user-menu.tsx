@@ -4,6 +4,7 @@ import type React from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
+  Bell,
   Car,
   LogIn,
   LogOut,
@@ -104,6 +105,12 @@ export const UserMenu: React.FC = () => {
             My Requests
           </Link>
         </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/notifications" className="cursor-pointer">
+            <Bell className="mr-2 size-4" />
+            Notifications
+          </Link>
+        </DropdownMenuItem>
         <DropdownMenuItem asChild>
           <Link href="/settings" className="cursor-pointer">
             <Settings className="mr-2 size-4" />
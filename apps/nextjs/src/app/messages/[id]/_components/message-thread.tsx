@@ -10,6 +10,7 @@ interface Message {
   content: string;
   createdAt: Date;
   senderId: string;
+  isSystem: boolean;
   sender: {
     id: string;
     name: string | null;
@@ -58,6 +59,19 @@ export function MessageThread({ messages, currentUserId }: MessageThreadProps) {
       {sortedMessages.map((message) => {
         const isOwnMessage = message.senderId === currentUserId;
 
+        if (message.isSystem) {
+          return (
+            <div key={message.id} className="flex justify-center">
+              <p className="bg-muted text-muted-foreground max-w-[80%] rounded-lg px-3 py-2 text-center text-xs">
+                {message.content}
+                <span className="ml-2">
+                  {format(new Date(message.createdAt), "h:mm a")}
+                </span>
+              </p>
+            </div>
+          );
+        }
+
         return (
           <div
             key={message.id}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Calendar, Check, Loader2, Users, X } from "lucide-react";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@app/ui/avatar";
+import { Badge } from "@app/ui/badge";
+import { Button } from "@app/ui/button";
+import { toast } from "@app/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+interface DriverOffer {
+  id: string;
+  status: string;
+  seatsOffered: number;
+  proposedDepartureTime: Date | null;
+  proposedPricePerSeat: number | null;
+  pickupName: string | null;
+  dropoffName: string | null;
+  message: string | null;
+  expiresAt: Date | null;
+  driver: {
+    id: string;
+    name: string;
+    image: string | null;
+  };
+}
+
+interface Listing {
+  id: string;
+  fromName: string;
+  toName: string;
+  departureTime: Date;
+  flexibilityMinutes: number | null;
+  seatsNeeded: number;
+  maxPricePerSeat: number | null;
+  status: string;
+  offers: DriverOffer[];
+}
+
+interface ListingCardProps {
+  listing: Listing;
+}
+
+function getInitials(name: string | null | undefined): string {
+  if (!name) return "U";
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+function getStatusBadge(status: string) {
+  switch (status) {
+    case "active":
+      return (
+        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+          Looking for a ride
+        </Badge>
+      );
+    case "fulfilled":
+      return (
+        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+          Booked
+        </Badge>
+      );
+    case "closed":
+      return (
+        <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+          Closed
+        </Badge>
+      );
+    default:
+      return null;
+  }
+}
+
+export function ListingCard({ listing }: ListingCardProps) {
+  const router = useRouter();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const acceptOfferMutation = useMutation(
+    trpc.driverOffer.accept.mutationOptions({
+      onSuccess: (data) => {
+        toast.success("Offer accepted!", {
+          description: "Your trip is booked.",
+        });
+        void queryClient.invalidateQueries();
+        if (data.conversationId) {
+          router.push(`/messages/${data.conversationId}`);
+        }
+      },
+      onError: (error) => {
+        toast.error("Failed to accept offer", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const rejectOfferMutation = useMutation(
+    trpc.driverOffer.reject.mutationOptions({
+      onSuccess: () => {
+        toast.success("Offer declined");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to decline offer", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const closeListingMutation = useMutation(
+    trpc.passengerRoute.close.mutationOptions({
+      onSuccess: () => {
+        toast.success("Request closed");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to close request", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const isActive = listing.status === "active";
+  const pendingOffers = listing.offers.filter((o) => o.status === "pending");
+  const isBusy = acceptOfferMutation.isPending || rejectOfferMutation.isPending;
+
+  return (
+    <div className="rounded-lg border p-4">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">
+          {listing.fromName} → {listing.toName}
+        </span>
+        {getStatusBadge(listing.status)}
+      </div>
+
+      <div className="text-muted-foreground mt-2 flex flex-wrap gap-4 text-sm">
+        <span className="flex items-center gap-1">
+          <Calendar className="size-4" />
+          {format(new Date(listing.departureTime), "EEE, MMM d 'at' h:mm a")}
+          {listing.flexibilityMinutes
+            ? ` (± ${listing.flexibilityMinutes} min)`
+            : ""}
+        </span>
+        <span className="flex items-center gap-1">
+          <Users className="size-4" />
+          {listing.seatsNeeded} seat{listing.seatsNeeded !== 1 ? "s" : ""}{" "}
+          needed
+        </span>
+        {listing.maxPricePerSeat !== null && (
+          <span>Up to ${listing.maxPricePerSeat / 100} per seat</span>
+        )}
+      </div>
+
+      {isActive && (
+        <div className="mt-4 space-y-3">
+          {pendingOffers.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No offers yet. Drivers going your way can send you one.
+            </p>
+          ) : (
+            pendingOffers.map((offer) => (
+              <div key={offer.id} className="bg-muted/50 rounded-lg p-3">
+                <div className="flex items-start gap-3">
+                  <Avatar className="size-10">
+                    <AvatarImage
+                      src={offer.driver.image ?? undefined}
+                      alt={offer.driver.name}
+                    />
+                    <AvatarFallback>
+                      {getInitials(offer.driver.name)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1 text-sm">
+                    <p className="font-medium">{offer.driver.name}</p>
+                    <p className="text-muted-foreground">
+                      {format(
+                        new Date(
+                          offer.proposedDepartureTime ?? listing.departureTime,
+                        ),
+                        "EEE, MMM d 'at' h:mm a",
+                      )}
+                      {offer.proposedPricePerSeat !== null &&
+                        ` · $${offer.proposedPricePerSeat / 100} per seat`}
+                    </p>
+                    {(offer.pickupName ?? offer.dropoffName) && (
+                      <p className="text-muted-foreground">
+                        {offer.pickupName ?? listing.fromName} →{" "}
+                        {offer.dropoffName ?? listing.toName}
+                      </p>
+                    )}
+                    {offer.message && (
+                      <p className="mt-1">&ldquo;{offer.message}&rdquo;</p>
+                    )}
+                    {offer.expiresAt && (
+                      <p className="text-muted-foreground mt-1 text-xs">
+                        Offer expires{" "}
+                        {format(
+                          new Date(offer.expiresAt),
+                          "EEE, MMM d 'at' h:mm a",
+                        )}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-3 flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() =>
+                      acceptOfferMutation.mutate({ offerId: offer.id })
+                    }
+                    disabled={isBusy}
+                  >
+                    {acceptOfferMutation.isPending ? (
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                    ) : (
+                      <Check className="mr-2 size-4" />
+                    )}
+                    Accept
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      rejectOfferMutation.mutate({ offerId: offer.id })
+                    }
+                    disabled={isBusy}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {isActive && (
+        <div className="mt-4 flex flex-wrap gap-2 border-t pt-4">
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => closeListingMutation.mutate({ id: listing.id })}
+            disabled={closeListingMutation.isPending}
+          >
+            {closeListingMutation.isPending ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <X className="mr-2 size-4" />
+            )}
+            Close Request
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
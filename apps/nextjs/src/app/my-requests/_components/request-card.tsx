@@ -1,20 +1,35 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
-import { format } from "date-fns";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import {
   Calendar,
+  Check,
   Loader2,
   MapPin,
   MessageSquare,
   Users,
+  UserX,
   X,
 } from "lucide-react";
 
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@app/ui/alert-dialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@app/ui/avatar";
 import { Badge } from "@app/ui/badge";
 import { Button } from "@app/ui/button";
+import { Textarea } from "@app/ui/textarea";
 import { toast } from "@app/ui/toast";
 
 import { useTRPC } from "~/trpc/react";
@@ -27,6 +42,8 @@ interface RideRequest {
   message: string | null;
   pickupName: string | null;
   dropoffName: string | null;
+  expiresAt: Date | null;
+  isReturnLeg: boolean;
   createdAt: Date;
   ride: {
     id: string;
@@ -39,6 +56,27 @@ interface RideRequest {
       image: string | null;
     };
   };
+  booking: {
+    id: string;
+    status: string;
+    checkInCode: string;
+    boardedAt: Date | null;
+    freeCancellationUntil: Date;
+    noShowReport: {
+      id: string;
+      type: "passenger_no_show" | "driver_no_show";
+      status: "unconfirmed" | "pending" | "contested" | "upheld" | "dismissed";
+      isReporter: boolean;
+      contestDeadline: Date;
+      resolveBy: Date | null;
+    } | null;
+    noShowReportableUntil: Date;
+    pendingReschedule: {
+      previousDepartureTime: Date;
+      newDepartureTime: Date;
+      respondBy: Date;
+    } | null;
+  } | null;
   conversation: {
     id: string;
   } | null;
@@ -84,11 +122,42 @@ function getStatusBadge(status: string) {
           Cancelled
         </Badge>
       );
+    case "expired":
+      return (
+        <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+          Expired
+        </Badge>
+      );
     default:
       return null;
   }
 }
 
+function describeNoShowReport(
+  report: NonNullable<NonNullable<RideRequest["booking"]>["noShowReport"]>,
+) {
+  const subject = report.isReporter
+    ? "You reported the driver as a no-show"
+    : "The driver reported you as a no-show";
+
+  switch (report.status) {
+    case "unconfirmed":
+      return `You weren't checked in. It only counts as a no-show if the driver confirms it by ${format(new Date(report.contestDeadline), "EEE, MMM d 'at' h:mm a")}.`;
+    case "pending":
+      return report.isReporter
+        ? `${subject}. It becomes final ${format(new Date(report.contestDeadline), "EEE, MMM d 'at' h:mm a")} unless contested.`
+        : `${subject}. Contest it by ${format(new Date(report.contestDeadline), "EEE, MMM d 'at' h:mm a")} or it becomes final.`;
+    case "contested":
+      return report.resolveBy
+        ? `${subject}. The report is contested and is dismissed ${format(new Date(report.resolveBy), "EEE, MMM d")} unless it's settled first.`
+        : `${subject}. The report is contested.`;
+    case "upheld":
+      return `${subject}. The no-show is final.`;
+    case "dismissed":
+      return `${subject}. The report was withdrawn.`;
+  }
+}
+
 export function RequestCard({ request }: RequestCardProps) {
   const trpc = useTRPC();
   const queryClient = useQueryClient();
@@ -107,9 +176,141 @@ export function RequestCard({ request }: RequestCardProps) {
     }),
   );
 
-  const canCancel =
-    request.status === "pending" || request.status === "accepted";
+  const cancelBookingMutation = useMutation(
+    trpc.booking.cancel.mutationOptions({
+      onSuccess: (data) => {
+        toast.success("Booking cancelled", {
+          description: data.isLateCancellation
+            ? "This was a late cancellation and will show on your profile."
+            : undefined,
+        });
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to cancel booking", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const respondToRescheduleMutation = useMutation(
+    trpc.booking.respondToReschedule.mutationOptions({
+      onSuccess: (_data, variables) => {
+        toast.success(
+          variables.accept ? "New time confirmed" : "Booking cancelled",
+          {
+            description: variables.accept
+              ? undefined
+              : "The driver changed the time, so this doesn't count against you.",
+          },
+        );
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to respond to the new time", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const onNoShowError = (error: { message: string }) => {
+    toast.error("Failed to update the no-show report", {
+      description: error.message,
+    });
+  };
+
+  const reportNoShowMutation = useMutation(
+    trpc.noShow.report.mutationOptions({
+      onSuccess: () => {
+        toast.success("No-show reported", {
+          description: "The driver can contest it before it becomes final.",
+        });
+        void queryClient.invalidateQueries();
+      },
+      onError: onNoShowError,
+    }),
+  );
+
+  const contestNoShowMutation = useMutation(
+    trpc.noShow.contest.mutationOptions({
+      onSuccess: () => {
+        toast.success("Report contested");
+        void queryClient.invalidateQueries();
+      },
+      onError: onNoShowError,
+    }),
+  );
+
+  const acceptNoShowMutation = useMutation(
+    trpc.noShow.accept.mutationOptions({
+      onSuccess: () => {
+        toast.success("No-show accepted");
+        void queryClient.invalidateQueries();
+      },
+      onError: onNoShowError,
+    }),
+  );
+
+  const withdrawNoShowMutation = useMutation(
+    trpc.noShow.withdraw.mutationOptions({
+      onSuccess: () => {
+        toast.success("Report withdrawn");
+        void queryClient.invalidateQueries();
+      },
+      onError: onNoShowError,
+    }),
+  );
+
+  const [cancelReason, setCancelReason] = useState("");
+  const [noShowDetails, setNoShowDetails] = useState("");
+  const [contestResponse, setContestResponse] = useState("");
+  const canCancel = request.status === "pending";
   const isCancelling = cancelMutation.isPending;
+  const canCancelBooking = request.booking?.status === "confirmed";
+  const isLateCancellation =
+    !!request.booking &&
+    new Date() > new Date(request.booking.freeCancellationUntil);
+
+  const now = new Date();
+  const pendingReschedule = request.booking?.pendingReschedule ?? null;
+  const canRespondToReschedule =
+    !!pendingReschedule && now < new Date(pendingReschedule.respondBy);
+  const noShowReport = request.booking?.noShowReport ?? null;
+  const canReportNoShow =
+    !!request.booking &&
+    !noShowReport &&
+    !request.booking.boardedAt &&
+    (request.booking.status === "confirmed" ||
+      request.booking.status === "completed") &&
+    now > new Date(request.ride.departureTime) &&
+    now <= new Date(request.booking.noShowReportableUntil);
+  const canRespondToNoShow =
+    noShowReport?.status === "pending" &&
+    !noShowReport.isReporter &&
+    now < new Date(noShowReport.contestDeadline);
+  const canWithdrawNoShow =
+    !!noShowReport?.isReporter &&
+    (noShowReport.status === "pending" || noShowReport.status === "contested");
+
+  const handleRespondToReschedule = (accept: boolean) => {
+    if (!request.booking) return;
+
+    respondToRescheduleMutation.mutate({
+      bookingId: request.booking.id,
+      accept,
+    });
+  };
+
+  const handleCancelBooking = () => {
+    if (!request.booking || !cancelReason.trim()) return;
+
+    cancelBookingMutation.mutate({
+      bookingId: request.booking.id,
+      reason: cancelReason.trim(),
+    });
+  };
 
   return (
     <div className="rounded-lg border p-4">
@@ -134,6 +335,7 @@ export function RequestCard({ request }: RequestCardProps) {
                 {request.ride.fromName} → {request.ride.toName}
               </Link>
               {getStatusBadge(request.status)}
+              {request.isReturnLeg && <Badge variant="outline">Return</Badge>}
             </div>
 
             <p className="text-muted-foreground mt-1 text-sm">
@@ -165,6 +367,77 @@ export function RequestCard({ request }: RequestCardProps) {
               </div>
             )}
 
+            {canCancel && request.expiresAt && (
+              <p className="text-muted-foreground mt-2 text-xs">
+                Expires{" "}
+                {format(new Date(request.expiresAt), "EEE, MMM d 'at' h:mm a")}{" "}
+                if the driver doesn&apos;t respond
+              </p>
+            )}
+
+            {canCancelBooking && request.booking && (
+              <p className="text-muted-foreground mt-2 text-xs">
+                {isLateCancellation
+                  ? "Cancelling now counts as a late cancellation"
+                  : `Free cancellation until ${format(
+                      new Date(request.booking.freeCancellationUntil),
+                      "EEE, MMM d 'at' h:mm a",
+                    )}`}
+              </p>
+            )}
+
+            {pendingReschedule && (
+              <div className="mt-3 rounded border border-orange-200 bg-orange-50 p-2 text-sm">
+                <p className="font-medium">
+                  The driver moved the departure from{" "}
+                  {format(
+                    new Date(pendingReschedule.previousDepartureTime),
+                    "EEE, MMM d 'at' h:mm a",
+                  )}{" "}
+                  to{" "}
+                  {format(
+                    new Date(pendingReschedule.newDepartureTime),
+                    "EEE, MMM d 'at' h:mm a",
+                  )}
+                </p>
+                <p className="text-muted-foreground mt-1 text-xs">
+                  Confirm your seat or cancel without penalty by{" "}
+                  {format(
+                    new Date(pendingReschedule.respondBy),
+                    "EEE, MMM d 'at' h:mm a",
+                  )}
+                  . Unconfirmed bookings are released.
+                </p>
+              </div>
+            )}
+
+            {canCancelBooking &&
+              request.booking &&
+              (request.booking.boardedAt ? (
+                <p className="mt-2 flex items-center gap-1 text-xs text-green-600">
+                  <Check className="size-4" />
+                  Checked in at{" "}
+                  {format(new Date(request.booking.boardedAt), "h:mm a")}
+                </p>
+              ) : (
+                <div className="mt-3 inline-block rounded border p-2">
+                  <p className="text-muted-foreground text-xs">Check-in PIN</p>
+                  <p className="font-mono text-2xl font-semibold tracking-widest">
+                    {request.booking.checkInCode}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    Show this to your driver at pickup
+                  </p>
+                </div>
+              ))}
+
+            {noShowReport && (
+              <p className="mt-2 flex items-center gap-1 text-xs text-orange-600">
+                <UserX className="size-4" />
+                {describeNoShowReport(noShowReport)}
+              </p>
+            )}
+
             {request.message && (
               <p className="bg-muted mt-3 rounded p-2 text-sm">
                 &ldquo;{request.message}&rdquo;
@@ -188,6 +461,14 @@ export function RequestCard({ request }: RequestCardProps) {
           <Link href={`/ride/${request.ride.id}`}>View Ride</Link>
         </Button>
 
+        {request.booking?.status === "cancelled_by_driver" && (
+          <Button size="sm" asChild>
+            <Link href={`/my-requests/rebook/${request.booking.id}`}>
+              See Alternatives
+            </Link>
+          </Button>
+        )}
+
         {canCancel && (
           <Button
             variant="destructive"
@@ -203,6 +484,218 @@ export function RequestCard({ request }: RequestCardProps) {
             Cancel Request
           </Button>
         )}
+
+        {canRespondToReschedule && (
+          <>
+            <Button
+              size="sm"
+              onClick={() => handleRespondToReschedule(true)}
+              disabled={respondToRescheduleMutation.isPending}
+            >
+              {respondToRescheduleMutation.isPending && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              Keep My Seat
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRespondToReschedule(false)}
+              disabled={respondToRescheduleMutation.isPending}
+            >
+              Cancel Without Penalty
+            </Button>
+          </>
+        )}
+
+        {canCancelBooking && !canRespondToReschedule && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={cancelBookingMutation.isPending}
+              >
+                {cancelBookingMutation.isPending ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <X className="mr-2 size-4" />
+                )}
+                Cancel Booking
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Cancel your booking?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {isLateCancellation
+                    ? "Your departure is close, so this counts as a late cancellation and will show on your profile."
+                    : "You can cancel this booking for free. Your seats will be released to other passengers."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Textarea
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="Let the driver know why you're cancelling"
+                rows={3}
+                maxLength={500}
+              />
+              <AlertDialogFooter>
+                <AlertDialogCancel variant="outline" size="sm">
+                  Keep Booking
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleCancelBooking}
+                  disabled={!cancelReason.trim()}
+                  variant="destructive"
+                  size="sm"
+                >
+                  Cancel Booking
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        {canReportNoShow && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={reportNoShowMutation.isPending}
+              >
+                {reportNoShowMutation.isPending ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <UserX className="mr-2 size-4" />
+                )}
+                Report Driver No-Show
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  Report the driver as a no-show?
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  The driver gets a chance to contest the report. If they
+                  don&apos;t, it becomes final and shows on their profile.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Textarea
+                value={noShowDetails}
+                onChange={(e) => setNoShowDetails(e.target.value)}
+                placeholder="What happened? (optional)"
+                rows={3}
+                maxLength={1000}
+              />
+              <AlertDialogFooter>
+                <AlertDialogCancel variant="outline" size="sm">
+                  Back
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (!request.booking) return;
+                    reportNoShowMutation.mutate({
+                      bookingId: request.booking.id,
+                      details: noShowDetails.trim() || undefined,
+                    });
+                  }}
+                  variant="destructive"
+                  size="sm"
+                >
+                  Report No-Show
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        {canRespondToNoShow && (
+          <>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={contestNoShowMutation.isPending}
+                >
+                  {contestNoShowMutation.isPending && (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  )}
+                  Contest No-Show
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    Contest the no-show report?
+                  </AlertDialogTitle>
+                  <AlertDialogDescription>
+                    A contested report isn&apos;t counted against you, and
+                    it&apos;s dismissed within a week if it isn&apos;t settled
+                    sooner.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <Textarea
+                  value={contestResponse}
+                  onChange={(e) => setContestResponse(e.target.value)}
+                  placeholder="Tell the driver what happened"
+                  rows={3}
+                  maxLength={1000}
+                />
+                <AlertDialogFooter>
+                  <AlertDialogCancel variant="outline" size="sm">
+                    Back
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() =>
+                      contestNoShowMutation.mutate({
+                        reportId: noShowReport.id,
+                        response: contestResponse.trim(),
+                      })
+                    }
+                    disabled={!contestResponse.trim()}
+                    size="sm"
+                  >
+                    Contest
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                acceptNoShowMutation.mutate({ reportId: noShowReport.id })
+              }
+              disabled={acceptNoShowMutation.isPending}
+            >
+              {acceptNoShowMutation.isPending && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              Accept No-Show
+            </Button>
+          </>
+        )}
+
+        {canWithdrawNoShow && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              withdrawNoShowMutation.mutate({ reportId: noShowReport.id })
+            }
+            disabled={withdrawNoShowMutation.isPending}
+          >
+            {withdrawNoShowMutation.isPending && (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            )}
+            Withdraw Report
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,254 @@
+"use client";
+
+import Link from "next/link";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Calendar,
+  Check,
+  Clock,
+  Loader2,
+  MapPin,
+  Users,
+  X,
+} from "lucide-react";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@app/ui/avatar";
+import { Badge } from "@app/ui/badge";
+import { Button } from "@app/ui/button";
+import { toast } from "@app/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+interface WaitlistEntry {
+  id: string;
+  status: string;
+  seatsRequested: number;
+  pickupName: string | null;
+  dropoffName: string | null;
+  offerExpiresAt: Date | null;
+  createdAt: Date;
+  position: number | null;
+  ride: {
+    id: string;
+    fromName: string;
+    toName: string;
+    departureTime: Date;
+    driver: {
+      id: string;
+      name: string;
+      image: string | null;
+    };
+  };
+}
+
+interface WaitlistCardProps {
+  entry: WaitlistEntry;
+}
+
+function getInitials(name: string | null | undefined): string {
+  if (!name) return "U";
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+function getStatusBadge(entry: WaitlistEntry) {
+  switch (entry.status) {
+    case "waiting":
+      return (
+        <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+          Waitlist #{entry.position ?? 1}
+        </Badge>
+      );
+    case "offered":
+      return (
+        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+          Seat available
+        </Badge>
+      );
+    case "accepted":
+      return (
+        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+          Booked
+        </Badge>
+      );
+    case "declined":
+    case "expired":
+    case "cancelled":
+      return (
+        <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+          {entry.status === "expired" ? "Offer expired" : "Left waitlist"}
+        </Badge>
+      );
+    default:
+      return null;
+  }
+}
+
+export function WaitlistCard({ entry }: WaitlistCardProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const acceptMutation = useMutation(
+    trpc.waitlist.acceptOffer.mutationOptions({
+      onSuccess: () => {
+        toast.success("Seat booked!");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to accept the seat", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const declineMutation = useMutation(
+    trpc.waitlist.declineOffer.mutationOptions({
+      onSuccess: () => {
+        toast.success("Seat offer declined");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to decline the seat", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const leaveMutation = useMutation(
+    trpc.waitlist.leave.mutationOptions({
+      onSuccess: () => {
+        toast.success("You left the waitlist");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to leave the waitlist", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const isOffered = entry.status === "offered";
+  const isOpen = entry.status === "waiting" || entry.status === "offered";
+  const isBusy =
+    acceptMutation.isPending ||
+    declineMutation.isPending ||
+    leaveMutation.isPending;
+
+  return (
+    <div className="rounded-lg border p-4">
+      <div className="flex items-start gap-4">
+        <Avatar className="size-12">
+          <AvatarImage
+            src={entry.ride.driver.image ?? undefined}
+            alt={entry.ride.driver.name}
+          />
+          <AvatarFallback>{getInitials(entry.ride.driver.name)}</AvatarFallback>
+        </Avatar>
+
+        <div>
+          <div className="flex items-center gap-2">
+            <Link
+              href={`/ride/${entry.ride.id}`}
+              className="font-medium hover:underline"
+            >
+              {entry.ride.fromName} → {entry.ride.toName}
+            </Link>
+            {getStatusBadge(entry)}
+          </div>
+
+          <p className="text-muted-foreground mt-1 text-sm">
+            Driver: {entry.ride.driver.name}
+          </p>
+
+          <div className="text-muted-foreground mt-2 flex flex-wrap gap-4 text-sm">
+            <span className="flex items-center gap-1">
+              <Calendar className="size-4" />
+              {format(
+                new Date(entry.ride.departureTime),
+                "EEE, MMM d 'at' h:mm a",
+              )}
+            </span>
+            <span className="flex items-center gap-1">
+              <Users className="size-4" />
+              {entry.seatsRequested} seat
+              {entry.seatsRequested !== 1 ? "s" : ""} requested
+            </span>
+          </div>
+
+          {(entry.pickupName ?? entry.dropoffName) && (
+            <div className="text-muted-foreground mt-2 text-sm">
+              <span className="flex items-center gap-1">
+                <MapPin className="size-4" />
+                {entry.pickupName ?? "Not specified"} →{" "}
+                {entry.dropoffName ?? "Not specified"}
+              </span>
+            </div>
+          )}
+
+          {isOffered && entry.offerExpiresAt && (
+            <p className="mt-2 flex items-center gap-1 text-sm font-medium text-green-700">
+              <Clock className="size-4" />
+              Seat held for you until{" "}
+              {format(new Date(entry.offerExpiresAt), "h:mm a")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2 border-t pt-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/ride/${entry.ride.id}`}>View Ride</Link>
+        </Button>
+
+        {isOffered && (
+          <>
+            <Button
+              size="sm"
+              onClick={() => acceptMutation.mutate({ entryId: entry.id })}
+              disabled={isBusy}
+            >
+              {acceptMutation.isPending ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Check className="mr-2 size-4" />
+              )}
+              Accept Seat
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => declineMutation.mutate({ entryId: entry.id })}
+              disabled={isBusy}
+            >
+              Decline
+            </Button>
+          </>
+        )}
+
+        {isOpen && (
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => leaveMutation.mutate({ entryId: entry.id })}
+            disabled={isBusy}
+          >
+            {leaveMutation.isPending ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <X className="mr-2 size-4" />
+            )}
+            Leave Waitlist
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@ import { redirect } from "next/navigation";
 import { Car } from "lucide-react";
 
 import { getSession } from "~/auth/server";
-import { HydrateClient, fetchQuery, trpc } from "~/trpc/server";
+import { fetchQuery, HydrateClient, trpc } from "~/trpc/server";
+import { ListingCard } from "./_components/listing-card";
 import { RequestCard } from "./_components/request-card";
+import { WaitlistCard } from "./_components/waitlist-card";
 
 export default async function MyRequestsPage() {
   const session = await getSession();
@@ -12,9 +14,11 @@ export default async function MyRequestsPage() {
     redirect("/login");
   }
 
-  const requests = await fetchQuery(
-    trpc.rideRequest.myRequests.queryOptions(),
-  ).catch(() => []);
+  const [requests, waitlistEntries, listings] = await Promise.all([
+    fetchQuery(trpc.rideRequest.myRequests.queryOptions()).catch(() => []),
+    fetchQuery(trpc.waitlist.myEntries.queryOptions()).catch(() => []),
+    fetchQuery(trpc.passengerRoute.myRoutes.queryOptions()).catch(() => []),
+  ]);
 
   return (
     <HydrateClient>
@@ -26,6 +30,28 @@ export default async function MyRequestsPage() {
           </p>
         </div>
 
+        {listings.length > 0 && (
+          <div className="mb-8">
+            <h2 className="mb-4 text-xl font-semibold">Ride Wanted</h2>
+            <div className="space-y-4">
+              {listings.map((listing) => (
+                <ListingCard key={listing.id} listing={listing} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {waitlistEntries.length > 0 && (
+          <div className="mb-8">
+            <h2 className="mb-4 text-xl font-semibold">Waitlist</h2>
+            <div className="space-y-4">
+              {waitlistEntries.map((entry) => (
+                <WaitlistCard key={entry.id} entry={entry} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {requests.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-16 text-center">
             <Car className="text-muted-foreground mb-4 size-12" />
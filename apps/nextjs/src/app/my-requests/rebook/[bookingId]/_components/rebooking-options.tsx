@@ -0,0 +1,207 @@
+"use client";
+
+import Link from "next/link";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Calendar, Check, Loader2, Search, Users } from "lucide-react";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@app/ui/avatar";
+import { Button } from "@app/ui/button";
+import { toast } from "@app/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+interface CancelledBooking {
+  id: string;
+  seatsBooked: number;
+  pickupPlaceId: string | null;
+  pickupName: string | null;
+  pickupLat: number;
+  pickupLng: number;
+  dropoffPlaceId: string | null;
+  dropoffName: string | null;
+  dropoffLat: number;
+  dropoffLng: number;
+}
+
+interface Alternative {
+  tripId: string;
+  fromName: string;
+  toName: string;
+  departureTime: Date;
+  pickupDistanceKm: number;
+  dropoffDistanceKm: number;
+  pricePerSeat: number | null;
+  seatsAvailable: number;
+  requested: boolean;
+  driver: {
+    id: string;
+    name: string;
+    image: string | null;
+  };
+}
+
+interface RebookingOptionsProps {
+  booking: CancelledBooking;
+  alternatives: Alternative[];
+}
+
+function getInitials(name: string | null | undefined): string {
+  if (!name) return "U";
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export function RebookingOptions({
+  booking,
+  alternatives,
+}: RebookingOptionsProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const requestMutation = useMutation(
+    trpc.rideRequest.create.mutationOptions({
+      onSuccess: (data) => {
+        toast.success(
+          data.instantBooked ? "Seat booked" : "Request sent to the driver",
+        );
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to request a seat", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const handleRequest = (tripId: string) => {
+    requestMutation.mutate({
+      rideId: tripId,
+      pickupPlaceId: booking.pickupPlaceId ?? undefined,
+      pickupName: booking.pickupName ?? undefined,
+      pickupLat: booking.pickupLat,
+      pickupLng: booking.pickupLng,
+      dropoffPlaceId: booking.dropoffPlaceId ?? undefined,
+      dropoffName: booking.dropoffName ?? undefined,
+      dropoffLat: booking.dropoffLat,
+      dropoffLng: booking.dropoffLng,
+      seatsRequested: booking.seatsBooked,
+    });
+  };
+
+  if (alternatives.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border py-12 text-center">
+        <Search className="text-muted-foreground mb-4 size-10" />
+        <h3 className="text-lg font-semibold">No other rides found</h3>
+        <p className="text-muted-foreground mt-1 max-w-sm text-sm">
+          We couldn&apos;t find another ride near your pickup and dropoff around
+          the same time.
+        </p>
+        <Button variant="outline" size="sm" className="mt-4" asChild>
+          <Link href="/">Search for rides</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {alternatives.map((alternative) => {
+        const isRequesting =
+          requestMutation.isPending &&
+          requestMutation.variables.rideId === alternative.tripId;
+        const isRequested =
+          alternative.requested ||
+          (requestMutation.isSuccess &&
+            requestMutation.variables.rideId === alternative.tripId);
+
+        return (
+          <div key={alternative.tripId} className="rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-4">
+                <Avatar className="size-12">
+                  <AvatarImage
+                    src={alternative.driver.image ?? undefined}
+                    alt={alternative.driver.name}
+                  />
+                  <AvatarFallback>
+                    {getInitials(alternative.driver.name)}
+                  </AvatarFallback>
+                </Avatar>
+
+                <div>
+                  <Link
+                    href={`/ride/${alternative.tripId}`}
+                    className="font-medium hover:underline"
+                  >
+                    {alternative.fromName} → {alternative.toName}
+                  </Link>
+                  <p className="text-muted-foreground mt-1 text-sm">
+                    Driver: {alternative.driver.name}
+                  </p>
+
+                  <div className="text-muted-foreground mt-2 flex flex-wrap gap-4 text-sm">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="size-4" />
+                      {format(
+                        new Date(alternative.departureTime),
+                        "EEE, MMM d 'at' h:mm a",
+                      )}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Users className="size-4" />
+                      {alternative.seatsAvailable} seat
+                      {alternative.seatsAvailable !== 1 ? "s" : ""} left
+                    </span>
+                  </div>
+
+                  <p className="text-muted-foreground mt-2 text-xs">
+                    Passes {alternative.pickupDistanceKm} km from your pickup
+                    and {alternative.dropoffDistanceKm} km from your dropoff
+                  </p>
+                </div>
+              </div>
+
+              {alternative.pricePerSeat !== null && (
+                <p className="text-lg font-semibold">
+                  ${(alternative.pricePerSeat / 100).toFixed(0)}
+                </p>
+              )}
+            </div>
+
+            <div className="mt-4 flex flex-wrap gap-2 border-t pt-4">
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/ride/${alternative.tripId}`}>View Ride</Link>
+              </Button>
+
+              {isRequested ? (
+                <Button size="sm" disabled>
+                  <Check className="mr-2 size-4" />
+                  Requested
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => handleRequest(alternative.tripId)}
+                  disabled={requestMutation.isPending}
+                >
+                  {isRequesting && (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  )}
+                  Request {booking.seatsBooked} Seat
+                  {booking.seatsBooked !== 1 ? "s" : ""}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft, CalendarX } from "lucide-react";
+
+import { fetchQuery, HydrateClient, trpc } from "~/trpc/server";
+import { RebookingOptions } from "./_components/rebooking-options";
+
+interface RebookPageProps {
+  params: Promise<{ bookingId: string }>;
+}
+
+export default async function RebookPage({ params }: RebookPageProps) {
+  const { bookingId } = await params;
+
+  const options = await fetchQuery(
+    trpc.booking.rebookingOptions.queryOptions({ bookingId }),
+  ).catch(() => null);
+
+  if (!options) {
+    notFound();
+  }
+
+  const { booking, trip } = options;
+
+  return (
+    <HydrateClient>
+      <div className="mx-auto max-w-2xl">
+        <Link
+          href="/my-requests"
+          className="text-muted-foreground hover:text-foreground mb-6 inline-flex items-center gap-2 text-sm transition-colors"
+        >
+          <ArrowLeft className="size-4" />
+          My Requests
+        </Link>
+
+        <div className="mb-8 rounded-lg border p-6">
+          <div className="flex items-center gap-3">
+            <CalendarX className="size-8 text-red-600" />
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight">
+                {booking.status === "cancelled_by_driver"
+                  ? "Your ride was cancelled"
+                  : "Other rides for this trip"}
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                {trip.fromName} → {trip.toName},{" "}
+                {format(new Date(trip.departureTime), "EEE, MMM d 'at' h:mm a")}{" "}
+                with {trip.driver.name}
+              </p>
+            </div>
+          </div>
+
+          {booking.cancellationReason && (
+            <p className="bg-muted mt-4 rounded p-3 text-sm">
+              &ldquo;{booking.cancellationReason}&rdquo;
+            </p>
+          )}
+        </div>
+
+        <h2 className="mb-4 text-xl font-semibold">
+          Rides around the same time
+        </h2>
+        <RebookingOptions
+          booking={booking}
+          alternatives={options.alternatives}
+        />
+      </div>
+    </HydrateClient>
+  );
+}
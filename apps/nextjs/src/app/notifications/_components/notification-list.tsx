@@ -0,0 +1,122 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCheck } from "lucide-react";
+
+import { Button } from "@app/ui/button";
+
+import { useTRPC } from "~/trpc/react";
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+interface NotificationListProps {
+  notifications: Notification[];
+}
+
+export function NotificationList({ notifications }: NotificationListProps) {
+  const router = useRouter();
+  const trpc = useTRPC();
+
+  const markReadMutation = useMutation(
+    trpc.notification.markRead.mutationOptions({
+      onSuccess: () => router.refresh(),
+    }),
+  );
+
+  const markAllReadMutation = useMutation(
+    trpc.notification.markAllRead.mutationOptions({
+      onSuccess: () => router.refresh(),
+    }),
+  );
+
+  const hasUnread = notifications.some((n) => !n.readAt);
+
+  return (
+    <div className="space-y-4">
+      {hasUnread && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={markAllReadMutation.isPending}
+          >
+            <CheckCheck className="mr-2 size-4" />
+            Mark all as read
+          </Button>
+        </div>
+      )}
+
+      <div className="divide-y rounded-lg border">
+        {notifications.map((notification) => {
+          const content = (
+            <div className="flex items-start gap-3 p-4">
+              <span
+                className={`mt-2 size-2 shrink-0 rounded-full ${
+                  notification.readAt ? "bg-transparent" : "bg-primary"
+                }`}
+              />
+              <div className="min-w-0 flex-1">
+                <p
+                  className={
+                    notification.readAt
+                      ? "text-muted-foreground"
+                      : "font-medium"
+                  }
+                >
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="text-muted-foreground mt-1 text-sm">
+                    {notification.body}
+                  </p>
+                )}
+                <p className="text-muted-foreground mt-1 text-xs">
+                  {formatDistanceToNow(new Date(notification.createdAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              </div>
+            </div>
+          );
+
+          const markRead = () => {
+            if (!notification.readAt) {
+              markReadMutation.mutate({ id: notification.id });
+            }
+          };
+
+          return notification.link ? (
+            <Link
+              key={notification.id}
+              href={notification.link}
+              onClick={markRead}
+              className="hover:bg-muted/50 block transition-colors"
+            >
+              {content}
+            </Link>
+          ) : (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={markRead}
+              className="hover:bg-muted/50 block w-full text-left transition-colors"
+            >
+              {content}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { redirect } from "next/navigation";
+import { Bell } from "lucide-react";
+
+import { getSession } from "~/auth/server";
+import { fetchQuery, HydrateClient, trpc } from "~/trpc/server";
+import { NotificationList } from "./_components/notification-list";
+
+export default async function NotificationsPage() {
+  const session = await getSession();
+
+  if (!session?.user) {
+    redirect("/login");
+  }
+
+  const notifications = await fetchQuery(
+    trpc.notification.list.queryOptions({ limit: 50 }),
+  ).catch(() => []);
+
+  return (
+    <HydrateClient>
+      <div>
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
+          <p className="text-muted-foreground mt-1">
+            Updates about your rides and requests
+          </p>
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <Bell className="text-muted-foreground mb-4 size-12" />
+            <h3 className="text-lg font-semibold">No notifications yet</h3>
+            <p className="text-muted-foreground mt-1 max-w-sm">
+              We&apos;ll let you know when something happens with your rides.
+            </p>
+          </div>
+        ) : (
+          <NotificationList notifications={notifications} />
+        )}
+      </div>
+    </HydrateClient>
+  );
+}
@@ -9,11 +9,15 @@ import { Textarea } from "@app/ui/textarea";
 interface AdditionalInfoSectionProps {
   notes: string;
   onNotesChange: (notes: string) => void;
+  placeholder?: string;
+  hint?: string;
 }
 
 export const AdditionalInfoSection: React.FC<AdditionalInfoSectionProps> = ({
   notes,
   onNotesChange,
+  placeholder = "E.g., Pickup location details, stops along the way, music preferences...",
+  hint = "Include any relevant details to help passengers decide.",
 }) => {
   return (
     <section>
@@ -26,15 +30,13 @@ export const AdditionalInfoSection: React.FC<AdditionalInfoSectionProps> = ({
         <Label htmlFor="notes">Notes (optional)</Label>
         <Textarea
           id="notes"
-          placeholder="E.g., Pickup location details, stops along the way, music preferences..."
+          placeholder={placeholder}
           value={notes}
           onChange={(e) => onNotesChange(e.target.value)}
           rows={4}
           className="resize-none"
         />
-        <p className="text-muted-foreground text-xs">
-          Include any relevant details to help passengers decide.
-        </p>
+        <p className="text-muted-foreground text-xs">{hint}</p>
       </div>
     </section>
   );
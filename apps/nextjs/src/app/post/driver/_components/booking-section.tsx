@@ -0,0 +1,171 @@
+"use client";
+
+import type React from "react";
+import { Clock, Navigation, Phone, Star, Zap } from "lucide-react";
+
+import { Input } from "@app/ui/input";
+import { Label } from "@app/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@app/ui/select";
+
+import { PreferenceCheckbox } from "./trip-preferences-section";
+
+const MIN_RATING_OPTIONS = [
+  { value: "any", label: "Any rating" },
+  { value: "3", label: "3+ stars" },
+  { value: "4", label: "4+ stars" },
+  { value: "4.5", label: "4.5+ stars" },
+] as const;
+
+const RESPONSE_DEADLINE_OPTIONS = [
+  { value: "departure", label: "Until departure" },
+  { value: "2", label: "Within 2 hours" },
+  { value: "6", label: "Within 6 hours" },
+  { value: "12", label: "Within 12 hours" },
+  { value: "24", label: "Within 24 hours" },
+  { value: "48", label: "Within 48 hours" },
+] as const;
+
+interface BookingSettings {
+  responseHours: string;
+  instantBook: boolean;
+  minRating: string;
+  requireVerifiedPhone: boolean;
+  maxDetourKm: string;
+}
+
+interface BookingSectionProps {
+  settings: BookingSettings;
+  onResponseHoursChange: (value: string) => void;
+  onInstantBookChange: (value: boolean) => void;
+  onMinRatingChange: (value: string) => void;
+  onRequireVerifiedPhoneChange: (value: boolean) => void;
+  onMaxDetourKmChange: (value: string) => void;
+}
+
+export const BookingSection: React.FC<BookingSectionProps> = ({
+  settings,
+  onResponseHoursChange,
+  onInstantBookChange,
+  onMinRatingChange,
+  onRequireVerifiedPhoneChange,
+  onMaxDetourKmChange,
+}) => {
+  return (
+    <section>
+      <div className="mb-6 flex items-center gap-3">
+        <Zap className="text-primary size-5" />
+        <h2 className="font-semibold">Booking</h2>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="response-deadline">Respond to requests</Label>
+          <p className="text-muted-foreground text-sm">
+            Requests you haven&apos;t answered by then expire automatically.
+          </p>
+          <div className="relative sm:max-w-xs">
+            <Clock className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+            <Select
+              value={settings.responseHours}
+              onValueChange={onResponseHoursChange}
+            >
+              <SelectTrigger id="response-deadline" className="h-10 pl-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESPONSE_DEADLINE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-muted-foreground text-sm">
+            With instant booking, requests that meet your rules are confirmed
+            right away. Everything else still waits for your approval.
+          </p>
+          <PreferenceCheckbox
+            id="instant-book"
+            label="Instant booking"
+            checked={settings.instantBook}
+            onCheckedChange={onInstantBookChange}
+            Icon={Zap}
+          />
+        </div>
+
+        {settings.instantBook && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="instant-book-min-rating">
+                Minimum passenger rating
+              </Label>
+              <div className="relative">
+                <Star className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+                <Select
+                  value={settings.minRating}
+                  onValueChange={onMinRatingChange}
+                >
+                  <SelectTrigger
+                    id="instant-book-min-rating"
+                    className="h-10 pl-10"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MIN_RATING_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="instant-book-max-detour">
+                Maximum detour (km)
+              </Label>
+              <div className="relative">
+                <Navigation className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+                <Input
+                  id="instant-book-max-detour"
+                  type="number"
+                  inputMode="numeric"
+                  min="0"
+                  step="1"
+                  placeholder="No limit"
+                  value={settings.maxDetourKm}
+                  onChange={(e) =>
+                    onMaxDetourKmChange(e.target.value.replace(/[^0-9]/g, ""))
+                  }
+                  className="h-10 pl-10"
+                />
+              </div>
+            </div>
+
+            <div className="sm:col-span-2">
+              <PreferenceCheckbox
+                id="instant-book-verified-phone"
+                label="Require a verified phone number"
+                checked={settings.requireVerifiedPhone}
+                onCheckedChange={onRequireVerifiedPhoneChange}
+                Icon={Phone}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -9,11 +9,13 @@ import { Button } from "@app/ui/button";
 interface FormSubmitProps {
   canSubmit: boolean;
   isSubmitting: boolean;
+  label?: string;
 }
 
 export const FormSubmit: React.FC<FormSubmitProps> = ({
   canSubmit,
   isSubmitting,
+  label = "Post Ride",
 }) => {
   return (
     <div className="flex flex-col gap-4 sm:flex-row sm:justify-between">
@@ -40,7 +42,7 @@ export const FormSubmit: React.FC<FormSubmitProps> = ({
         ) : (
           <>
             <Car className="size-4" />
-            Post Ride
+            {label}
           </>
         )}
       </Button>
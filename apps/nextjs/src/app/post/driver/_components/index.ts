@@ -12,5 +12,6 @@ export {
   LuggageOption,
   PreferenceCheckbox,
 } from "./trip-preferences-section";
+export { BookingSection } from "./booking-section";
 export { AdditionalInfoSection } from "./additional-info-section";
 export { FormSubmit } from "./form-submit";
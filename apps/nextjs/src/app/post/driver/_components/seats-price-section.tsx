@@ -16,15 +16,23 @@ import {
 interface SeatsPriceSectionProps {
   seats: string;
   price: string;
+  pricingMode: string;
+  minimumFare: string;
   onSeatsChange: (seats: string) => void;
   onPriceChange: (price: string) => void;
+  onPricingModeChange: (mode: string) => void;
+  onMinimumFareChange: (fare: string) => void;
 }
 
 export const SeatsPriceSection: React.FC<SeatsPriceSectionProps> = ({
   seats,
   price,
+  pricingMode,
+  minimumFare,
   onSeatsChange,
   onPriceChange,
+  onPricingModeChange,
+  onMinimumFareChange,
 }) => {
   return (
     <section>
@@ -77,7 +85,54 @@ export const SeatsPriceSection: React.FC<SeatsPriceSectionProps> = ({
         </div>
       </div>
 
-      {price && (
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="pricing-mode">Pricing</Label>
+          <Select value={pricingMode} onValueChange={onPricingModeChange}>
+            <SelectTrigger id="pricing-mode" className="h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="flat">Same price for everyone</SelectItem>
+              <SelectItem value="distance">By distance ridden</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {pricingMode === "distance" && (
+          <div className="space-y-2">
+            <Label htmlFor="minimum-fare">Minimum Fare (CAD)</Label>
+            <div className="relative">
+              <DollarSign className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+              <Input
+                id="minimum-fare"
+                type="number"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                min="0"
+                step="1"
+                placeholder="0"
+                value={minimumFare}
+                onChange={(e) => {
+                  // Only allow whole numbers
+                  const value = e.target.value.replace(/[^0-9]/g, "");
+                  onMinimumFareChange(value);
+                }}
+                className="h-10 pl-10"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {pricingMode === "distance" && (
+        <p className="text-muted-foreground mt-4 text-sm">
+          Passengers riding part of the way pay their share of the price per
+          seat, based on the distance they ride.
+        </p>
+      )}
+
+      {price && pricingMode === "flat" && (
         <p className="text-muted-foreground mt-4 text-sm">
           Total for {seats} {parseInt(seats) === 1 ? "seat" : "seats"}:{" "}
           <span className="text-primary font-semibold">
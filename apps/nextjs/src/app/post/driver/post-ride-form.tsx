@@ -12,16 +12,18 @@ import { Separator } from "@app/ui/separator";
 import { toast } from "@app/ui/toast";
 
 import type { PlacePrediction } from "~/app/_components/location-picker";
-import type { RouteInfo } from "~/app/_components/route-map";
+import type { RouteInfo, TownSuggestion } from "~/app/_components/route-map";
 import { Navbar } from "~/app/_components/navbar";
 import { RouteMap } from "~/app/_components/route-map";
 import { useTRPC } from "~/trpc/react";
 import {
   AdditionalInfoSection,
+  BookingSection,
   DateTimeSection,
   FormSubmit,
   RouteSection,
   SeatsPriceSection,
+  StopsSection,
   TripPreferencesSection,
 } from "./_components";
 
@@ -41,6 +43,8 @@ interface PostRideFormData {
   // Seats & Price
   seats: string;
   price: string;
+  pricingMode: string;
+  minimumFare: string;
 
   // Preferences
   luggageSize: string;
@@ -51,6 +55,13 @@ interface PostRideFormData {
   hasAC: boolean;
   hasPhoneCharging: boolean;
 
+  // Booking
+  requestResponseHours: string;
+  instantBook: boolean;
+  instantBookMinRating: string;
+  instantBookRequireVerifiedPhone: boolean;
+  instantBookMaxDetourKm: string;
+
   // Additional
   notes: string;
 }
@@ -98,6 +109,8 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
       returnTime: "",
       seats: "1",
       price: "",
+      pricingMode: "flat",
+      minimumFare: "",
       luggageSize: "medium",
       hasWinterTires: false,
       allowsBikes: false,
@@ -105,6 +118,11 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
       allowsPets: false,
       hasAC: false,
       hasPhoneCharging: false,
+      requestResponseHours: "departure",
+      instantBook: false,
+      instantBookMinRating: "any",
+      instantBookRequireVerifiedPhone: false,
+      instantBookMaxDetourKm: "",
       notes: "",
     },
   });
@@ -119,6 +137,8 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
   const returnTime = useWatch({ control, name: "returnTime" });
   const seats = useWatch({ control, name: "seats" });
   const price = useWatch({ control, name: "price" });
+  const pricingMode = useWatch({ control, name: "pricingMode" });
+  const minimumFare = useWatch({ control, name: "minimumFare" });
   const luggageSize = useWatch({ control, name: "luggageSize" });
   const hasWinterTires = useWatch({ control, name: "hasWinterTires" });
   const allowsBikes = useWatch({ control, name: "allowsBikes" });
@@ -126,6 +146,23 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
   const allowsPets = useWatch({ control, name: "allowsPets" });
   const hasAC = useWatch({ control, name: "hasAC" });
   const hasPhoneCharging = useWatch({ control, name: "hasPhoneCharging" });
+  const requestResponseHours = useWatch({
+    control,
+    name: "requestResponseHours",
+  });
+  const instantBook = useWatch({ control, name: "instantBook" });
+  const instantBookMinRating = useWatch({
+    control,
+    name: "instantBookMinRating",
+  });
+  const instantBookRequireVerifiedPhone = useWatch({
+    control,
+    name: "instantBookRequireVerifiedPhone",
+  });
+  const instantBookMaxDetourKm = useWatch({
+    control,
+    name: "instantBookMaxDetourKm",
+  });
   const notes = useWatch({ control, name: "notes" });
 
   // tRPC mutation for creating a ride
@@ -153,6 +190,30 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
   // Route info state (from map component)
   const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null);
 
+  // Intermediate stops, in the order they were added (the server sorts them
+  // along the route)
+  const [stops, setStops] = useState<TownSuggestion[]>([]);
+  const [townSuggestions, setTownSuggestions] = useState<TownSuggestion[]>([]);
+  const [isAddingStop, setIsAddingStop] = useState(false);
+  const [manualStopInput, setManualStopInput] =
+    useState<PlacePrediction | null>(null);
+
+  const addStop = (town: TownSuggestion) => {
+    setStops((current) =>
+      current.some((s) => s.placeId === town.placeId)
+        ? current
+        : [...current, town],
+    );
+  };
+
+  const handleManualStopChange = (place: PlacePrediction | null) => {
+    setManualStopInput(place);
+    if (!place) return;
+    addStop({ name: place.mainText, placeId: place.placeId });
+    setManualStopInput(null);
+    setIsAddingStop(false);
+  };
+
   // Fetch place details using tRPC
   const fetchPlaceDetails = async (placeId: string) => {
     return queryClient.fetchQuery(
@@ -161,17 +222,23 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
   };
 
   const canSubmit =
-    fromLocation && toLocation && date && departureTime && price;
+    fromLocation &&
+    toLocation &&
+    date &&
+    departureTime &&
+    price &&
+    (!isRoundTrip || (returnDate && returnTime));
   const isSubmitting = createRouteMutation.isPending;
 
   const onSubmit = async (data: PostRideFormData) => {
     if (!data.fromLocation || !data.toLocation || !data.date) return;
 
     try {
-      // Fetch location details for from and to
-      const [fromDetails, toDetails] = await Promise.all([
+      // Fetch location details for from, to and the stops
+      const [fromDetails, toDetails, ...stopDetails] = await Promise.all([
         fetchPlaceDetails(data.fromLocation.placeId),
         fetchPlaceDetails(data.toLocation.placeId),
+        ...stops.map((stop) => fetchPlaceDetails(stop.placeId)),
       ]);
 
       if (!fromDetails.location || !toDetails.location) {
@@ -179,12 +246,41 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
         return;
       }
 
+      const stopsData = stops.flatMap((stop, index) => {
+        const location = stopDetails[index]?.location;
+        if (!location) return [];
+        return [
+          {
+            placeId: stop.placeId,
+            name: stop.name,
+            address: stopDetails[index]?.formattedAddress ?? undefined,
+            lat: location.lat,
+            lng: location.lng,
+          },
+        ];
+      });
+
+      if (stopsData.length < stops.length) {
+        toast.error("Failed to get stop coordinates. Please try again.");
+        return;
+      }
+
       // Combine date and time
       const departureDatetime = combineDateAndTime(
         data.date,
         data.departureTime,
       );
 
+      const returnDatetime =
+        data.isRoundTrip && data.returnDate && data.returnTime
+          ? combineDateAndTime(data.returnDate, data.returnTime)
+          : undefined;
+
+      if (returnDatetime && returnDatetime <= departureDatetime) {
+        toast.error("The return trip must leave after the outbound trip.");
+        return;
+      }
+
       // Convert price to cents
       const priceInCents = Math.round(parseFloat(data.price) * 100);
 
@@ -210,9 +306,16 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
         toLat: toDetails.location.lat,
         toLng: toDetails.location.lng,
         departureTime: departureDatetime,
+        returnDepartureTime: returnDatetime,
         seatsOffered: parseInt(data.seats),
         pricePerSeat: priceInCents,
+        pricingMode: data.pricingMode as "flat" | "distance",
+        minimumFare:
+          data.pricingMode === "distance" && data.minimumFare
+            ? parseInt(data.minimumFare) * 100
+            : null,
         description: data.notes || undefined,
+        stops: stopsData,
         distanceKm: routeInfo.distanceKm,
         durationMinutes,
         routeGeometry: {
@@ -229,6 +332,22 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
         allowsPets: data.allowsPets,
         hasAC: data.hasAC,
         hasPhoneCharging: data.hasPhoneCharging,
+        // Booking
+        requestResponseHours:
+          data.requestResponseHours === "departure"
+            ? null
+            : parseInt(data.requestResponseHours),
+        instantBook: data.instantBook,
+        instantBookMinRating:
+          data.instantBook && data.instantBookMinRating !== "any"
+            ? parseFloat(data.instantBookMinRating)
+            : null,
+        instantBookRequireVerifiedPhone:
+          data.instantBook && data.instantBookRequireVerifiedPhone,
+        instantBookMaxDetourKm:
+          data.instantBook && data.instantBookMaxDetourKm
+            ? parseInt(data.instantBookMaxDetourKm)
+            : null,
       });
     } catch (error) {
       console.error("Error preparing ride data:", error);
@@ -281,6 +400,29 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
                     onToLocationChange={(loc) => setValue("toLocation", loc)}
                   />
 
+                  {/* Stops Section */}
+                  {fromLocation && toLocation && (
+                    <StopsSection
+                      stops={stops}
+                      townSuggestions={townSuggestions}
+                      routeInfo={routeInfo}
+                      isAddingStop={isAddingStop}
+                      manualStopInput={manualStopInput}
+                      onAddStop={addStop}
+                      onRemoveStop={(placeId) =>
+                        setStops((current) =>
+                          current.filter((s) => s.placeId !== placeId),
+                        )
+                      }
+                      onManualStopChange={handleManualStopChange}
+                      onStartAddingStop={() => setIsAddingStop(true)}
+                      onCancelAddingStop={() => {
+                        setIsAddingStop(false);
+                        setManualStopInput(null);
+                      }}
+                    />
+                  )}
+
                   {/* <Separator /> */}
 
                   {/* Date & Time Section */}
@@ -307,8 +449,12 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
                   <SeatsPriceSection
                     seats={seats}
                     price={price}
+                    pricingMode={pricingMode}
+                    minimumFare={minimumFare}
                     onSeatsChange={(s) => setValue("seats", s)}
                     onPriceChange={(p) => setValue("price", p)}
+                    onPricingModeChange={(m) => setValue("pricingMode", m)}
+                    onMinimumFareChange={(f) => setValue("minimumFare", f)}
                   />
 
                   <Separator />
@@ -337,6 +483,32 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
 
                   <Separator />
 
+                  {/* Booking Section */}
+                  <BookingSection
+                    settings={{
+                      responseHours: requestResponseHours,
+                      instantBook,
+                      minRating: instantBookMinRating,
+                      requireVerifiedPhone: instantBookRequireVerifiedPhone,
+                      maxDetourKm: instantBookMaxDetourKm,
+                    }}
+                    onResponseHoursChange={(v) =>
+                      setValue("requestResponseHours", v)
+                    }
+                    onInstantBookChange={(v) => setValue("instantBook", v)}
+                    onMinRatingChange={(v) =>
+                      setValue("instantBookMinRating", v)
+                    }
+                    onRequireVerifiedPhoneChange={(v) =>
+                      setValue("instantBookRequireVerifiedPhone", v)
+                    }
+                    onMaxDetourKmChange={(v) =>
+                      setValue("instantBookMaxDetourKm", v)
+                    }
+                  />
+
+                  <Separator />
+
                   {/* Additional Info Section */}
                   <AdditionalInfoSection
                     notes={notes}
@@ -363,7 +535,9 @@ export const PostRideForm: React.FC<PostRideFormProps> = ({
                   toPlaceId={toLocation?.placeId ?? null}
                   fromName={fromLocation?.mainText}
                   toName={toLocation?.mainText}
+                  stops={stops}
                   onRouteInfoChange={setRouteInfo}
+                  onTownSuggestionsChange={setTownSuggestions}
                 />
               </div>
             </div>
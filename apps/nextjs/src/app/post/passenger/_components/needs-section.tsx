@@ -0,0 +1,200 @@
+"use client";
+
+import type React from "react";
+import {
+  Bike,
+  Clock,
+  DollarSign,
+  Luggage,
+  PawPrint,
+  Snowflake,
+  Users,
+} from "lucide-react";
+
+import { Input } from "@app/ui/input";
+import { Label } from "@app/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@app/ui/select";
+
+import { LuggageOption, PreferenceCheckbox } from "../../driver/_components";
+
+const LUGGAGE_OPTIONS = [
+  { value: "small", label: "Small", description: "Backpack only" },
+  { value: "medium", label: "Medium", description: "1 carry-on" },
+  { value: "large", label: "Large", description: "Large suitcase" },
+] as const;
+
+const FLEXIBILITY_OPTIONS = [
+  { value: "0", label: "Exact time" },
+  { value: "30", label: "± 30 minutes" },
+  { value: "60", label: "± 1 hour" },
+  { value: "120", label: "± 2 hours" },
+  { value: "240", label: "± 4 hours" },
+  { value: "720", label: "Any time that day" },
+] as const;
+
+interface PassengerNeeds {
+  seatsNeeded: string;
+  maxPrice: string;
+  flexibilityMinutes: string;
+  luggageSize: string;
+  hasBike: boolean;
+  hasSkis: boolean;
+  hasPet: boolean;
+}
+
+interface NeedsSectionProps {
+  needs: PassengerNeeds;
+  onSeatsNeededChange: (value: string) => void;
+  onMaxPriceChange: (value: string) => void;
+  onFlexibilityChange: (value: string) => void;
+  onLuggageSizeChange: (value: string) => void;
+  onBikeChange: (value: boolean) => void;
+  onSkisChange: (value: boolean) => void;
+  onPetChange: (value: boolean) => void;
+}
+
+export const NeedsSection: React.FC<NeedsSectionProps> = ({
+  needs,
+  onSeatsNeededChange,
+  onMaxPriceChange,
+  onFlexibilityChange,
+  onLuggageSizeChange,
+  onBikeChange,
+  onSkisChange,
+  onPetChange,
+}) => {
+  return (
+    <section>
+      <div className="mb-6 flex items-center gap-3">
+        <Luggage className="text-primary size-5" />
+        <h2 className="font-semibold">What You Need</h2>
+      </div>
+
+      <div className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="seats-needed">Seats</Label>
+            <div className="relative">
+              <Users className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+              <Select
+                value={needs.seatsNeeded}
+                onValueChange={onSeatsNeededChange}
+              >
+                <SelectTrigger id="seats-needed" className="h-10 pl-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4].map((num) => (
+                    <SelectItem key={num} value={num.toString()}>
+                      {num} {num === 1 ? "seat" : "seats"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="flexibility">Flexibility</Label>
+            <div className="relative">
+              <Clock className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+              <Select
+                value={needs.flexibilityMinutes}
+                onValueChange={onFlexibilityChange}
+              >
+                <SelectTrigger id="flexibility" className="h-10 pl-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FLEXIBILITY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-price">Max price per seat (CAD)</Label>
+            <div className="relative">
+              <DollarSign className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+              <Input
+                id="max-price"
+                type="number"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                min="0"
+                step="1"
+                placeholder="Any"
+                value={needs.maxPrice}
+                onChange={(e) =>
+                  onMaxPriceChange(e.target.value.replace(/[^0-9]/g, ""))
+                }
+                className="h-10 pl-10"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Luggage */}
+        <div className="space-y-3">
+          <Label>Luggage</Label>
+          <p className="text-muted-foreground text-sm">
+            How much luggage are you bringing?
+          </p>
+          <div className="grid grid-cols-3 gap-3">
+            {LUGGAGE_OPTIONS.map((option) => (
+              <LuggageOption
+                key={option.value}
+                value={option.value}
+                label={option.label}
+                description={option.description}
+                isSelected={needs.luggageSize === option.value}
+                onSelect={onLuggageSizeChange}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Items */}
+        <div className="space-y-3">
+          <Label>Bringing Along</Label>
+          <p className="text-muted-foreground text-sm">
+            Let drivers know if you need room for anything else.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <PreferenceCheckbox
+              id="has-bike"
+              label="Bike"
+              checked={needs.hasBike}
+              onCheckedChange={onBikeChange}
+              Icon={Bike}
+            />
+            <PreferenceCheckbox
+              id="has-skis"
+              label="Skis or snowboard"
+              checked={needs.hasSkis}
+              onCheckedChange={onSkisChange}
+              Icon={Snowflake}
+            />
+            <PreferenceCheckbox
+              id="has-pet"
+              label="Pet"
+              checked={needs.hasPet}
+              onCheckedChange={onPetChange}
+              Icon={PawPrint}
+            />
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
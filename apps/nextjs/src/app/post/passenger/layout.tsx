@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Post a Ride Request",
+  description:
+    "Let drivers know where you're headed. Post the trip you need and receive offers from drivers going your way.",
+  openGraph: {
+    title: "Post a Ride Request | RideList",
+    description:
+      "Let drivers know where you're headed and receive offers from drivers going your way.",
+  },
+};
+
+export default function PostListingLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation";
+
+import { getSession } from "~/auth/server";
+import { PostListingForm } from "./post-listing-form";
+
+export default async function PostListingPage() {
+  const session = await getSession();
+
+  if (!session?.user) {
+    redirect("/login");
+  }
+
+  return <PostListingForm />;
+}
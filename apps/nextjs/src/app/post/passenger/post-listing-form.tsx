@@ -0,0 +1,267 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { useForm, useWatch } from "react-hook-form";
+
+import { Separator } from "@app/ui/separator";
+import { toast } from "@app/ui/toast";
+
+import type { PlacePrediction } from "~/app/_components/location-picker";
+import { Navbar } from "~/app/_components/navbar";
+import { useTRPC } from "~/trpc/react";
+import {
+  AdditionalInfoSection,
+  DatePicker,
+  FormSubmit,
+  RouteSection,
+  TimePicker,
+} from "../driver/_components";
+import { NeedsSection } from "./_components/needs-section";
+
+interface PostListingFormData {
+  // Route
+  fromLocation: PlacePrediction | null;
+  toLocation: PlacePrediction | null;
+
+  // Date & Time
+  date: Date | undefined;
+  departureTime: string;
+
+  // Needs
+  seatsNeeded: string;
+  maxPrice: string;
+  flexibilityMinutes: string;
+  luggageSize: string;
+  hasBike: boolean;
+  hasSkis: boolean;
+  hasPet: boolean;
+
+  // Additional
+  notes: string;
+}
+
+// Combine date and time into a single Date object
+function combineDateAndTime(dateValue: Date, timeString: string): Date {
+  const [hours, minutes] = timeString.split(":").map(Number);
+  const combined = new Date(dateValue);
+  combined.setHours(hours ?? 0, minutes ?? 0, 0, 0);
+  return combined;
+}
+
+export const PostListingForm: React.FC = () => {
+  const router = useRouter();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const { control, setValue, handleSubmit } = useForm<PostListingFormData>({
+    defaultValues: {
+      fromLocation: null,
+      toLocation: null,
+      date: undefined,
+      departureTime: "",
+      seatsNeeded: "1",
+      maxPrice: "",
+      flexibilityMinutes: "30",
+      luggageSize: "medium",
+      hasBike: false,
+      hasSkis: false,
+      hasPet: false,
+      notes: "",
+    },
+  });
+
+  const fromLocation = useWatch({ control, name: "fromLocation" });
+  const toLocation = useWatch({ control, name: "toLocation" });
+  const date = useWatch({ control, name: "date" });
+  const departureTime = useWatch({ control, name: "departureTime" });
+  const seatsNeeded = useWatch({ control, name: "seatsNeeded" });
+  const maxPrice = useWatch({ control, name: "maxPrice" });
+  const flexibilityMinutes = useWatch({ control, name: "flexibilityMinutes" });
+  const luggageSize = useWatch({ control, name: "luggageSize" });
+  const hasBike = useWatch({ control, name: "hasBike" });
+  const hasSkis = useWatch({ control, name: "hasSkis" });
+  const hasPet = useWatch({ control, name: "hasPet" });
+  const notes = useWatch({ control, name: "notes" });
+
+  const createListingMutation = useMutation(
+    trpc.passengerRoute.create.mutationOptions({
+      onSuccess: () => {
+        toast.success("Ride request posted!", {
+          description: "Drivers going your way can now send you offers.",
+        });
+        void queryClient.invalidateQueries();
+        router.push("/my-requests");
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    }),
+  );
+
+  const [calendarOpen, setCalendarOpen] = useState(false);
+
+  const fetchPlaceDetails = async (placeId: string) => {
+    return queryClient.fetchQuery(
+      trpc.places.getDetails.queryOptions({ placeId }),
+    );
+  };
+
+  const canSubmit = fromLocation && toLocation && date && departureTime;
+  const isSubmitting = createListingMutation.isPending;
+
+  const onSubmit = async (data: PostListingFormData) => {
+    if (!data.fromLocation || !data.toLocation || !data.date) return;
+
+    try {
+      const [fromDetails, toDetails] = await Promise.all([
+        fetchPlaceDetails(data.fromLocation.placeId),
+        fetchPlaceDetails(data.toLocation.placeId),
+      ]);
+
+      if (!fromDetails.location || !toDetails.location) {
+        toast.error("Failed to get location coordinates. Please try again.");
+        return;
+      }
+
+      createListingMutation.mutate({
+        fromPlaceId: data.fromLocation.placeId,
+        fromName: data.fromLocation.mainText,
+        fromAddress: fromDetails.formattedAddress ?? undefined,
+        fromLat: fromDetails.location.lat,
+        fromLng: fromDetails.location.lng,
+        toPlaceId: data.toLocation.placeId,
+        toName: data.toLocation.mainText,
+        toAddress: toDetails.formattedAddress ?? undefined,
+        toLat: toDetails.location.lat,
+        toLng: toDetails.location.lng,
+        departureTime: combineDateAndTime(data.date, data.departureTime),
+        flexibilityMinutes: parseInt(data.flexibilityMinutes),
+        description: data.notes || undefined,
+        seatsNeeded: parseInt(data.seatsNeeded),
+        // Convert dollars to cents
+        maxPricePerSeat: data.maxPrice
+          ? parseInt(data.maxPrice) * 100
+          : undefined,
+        luggageSize: data.luggageSize as "small" | "medium" | "large",
+        hasBike: data.hasBike,
+        hasSkis: data.hasSkis,
+        hasPet: data.hasPet,
+      });
+    } catch (error) {
+      console.error("Error preparing listing data:", error);
+      toast.error("Failed to get location details. Please try again.");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      {/* Background */}
+      <div className="from-primary/5 via-background to-background fixed inset-0 -z-10 bg-linear-to-br" />
+      <div className="from-primary/10 fixed inset-0 -z-10 bg-[radial-gradient(ellipse_at_top,var(--tw-gradient-stops))] via-transparent to-transparent" />
+
+      <Navbar className="border-b" />
+
+      <main className="flex-1 py-8">
+        <div className="container">
+          {/* Back link */}
+          <Link
+            href="/"
+            className="text-muted-foreground hover:text-foreground mb-6 inline-flex items-center gap-2 text-sm transition-colors"
+          >
+            <ArrowLeft className="size-4" />
+            Back to home
+          </Link>
+
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="mb-2 text-3xl font-bold tracking-tight">
+              Post a Ride Request
+            </h1>
+            <p className="text-muted-foreground">
+              Tell drivers where you&apos;re headed and get offers from people
+              going your way.
+            </p>
+          </div>
+
+          <div className="w-full lg:max-w-2xl">
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <div className="space-y-10">
+                {/* Route Section */}
+                <RouteSection
+                  fromLocation={fromLocation}
+                  toLocation={toLocation}
+                  onFromLocationChange={(loc) => setValue("fromLocation", loc)}
+                  onToLocationChange={(loc) => setValue("toLocation", loc)}
+                />
+
+                {/* Date & Time */}
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <DatePicker
+                    id="date"
+                    label="Date"
+                    value={date}
+                    onChange={(d) => setValue("date", d)}
+                    open={calendarOpen}
+                    onOpenChange={setCalendarOpen}
+                  />
+                  <TimePicker
+                    id="time"
+                    label="Time"
+                    value={departureTime}
+                    onChange={(t) => setValue("departureTime", t)}
+                  />
+                </div>
+
+                <Separator />
+
+                {/* Needs Section */}
+                <NeedsSection
+                  needs={{
+                    seatsNeeded,
+                    maxPrice,
+                    flexibilityMinutes,
+                    luggageSize,
+                    hasBike,
+                    hasSkis,
+                    hasPet,
+                  }}
+                  onSeatsNeededChange={(v) => setValue("seatsNeeded", v)}
+                  onMaxPriceChange={(v) => setValue("maxPrice", v)}
+                  onFlexibilityChange={(v) => setValue("flexibilityMinutes", v)}
+                  onLuggageSizeChange={(v) => setValue("luggageSize", v)}
+                  onBikeChange={(v) => setValue("hasBike", v)}
+                  onSkisChange={(v) => setValue("hasSkis", v)}
+                  onPetChange={(v) => setValue("hasPet", v)}
+                />
+
+                <Separator />
+
+                {/* Additional Info Section */}
+                <AdditionalInfoSection
+                  notes={notes}
+                  onNotesChange={(n) => setValue("notes", n)}
+                  placeholder="E.g., Flexible pickup spots, reason for the trip, anything drivers should know..."
+                  hint="Include any relevant details to help drivers make an offer."
+                />
+
+                <Separator />
+
+                {/* Submit */}
+                <FormSubmit
+                  canSubmit={!!canSubmit}
+                  isSubmitting={isSubmitting}
+                  label="Post Request"
+                />
+              </div>
+            </form>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -57,8 +57,8 @@ export default async function PublicProfilePage({ params }: ProfilePageProps) {
     await Promise.all([
       fetchQuery(trpc.user.profileStats.queryOptions({ userId })),
       fetchQuery(trpc.review.stats.queryOptions({ userId })),
-      fetchQuery(trpc.user.listedRides.queryOptions({ userId, limit: 20 })),
-      fetchQuery(trpc.user.completedRides.queryOptions({ userId, limit: 20 })),
+      fetchQuery(trpc.user.listedTrips.queryOptions({ userId, limit: 20 })),
+      fetchQuery(trpc.user.completedTrips.queryOptions({ userId, limit: 20 })),
       fetchQuery(trpc.review.forUser.queryOptions({ userId, limit: 20 })),
     ]);
 
@@ -67,15 +67,31 @@ export default async function PublicProfilePage({ params }: ProfilePageProps) {
       user={profileUser}
       isOwnProfile={false}
       stats={{
-        ridesPosted: profileStats.ridesPosted,
-        ridesJoined: profileStats.ridesJoined,
+        ridesPosted: profileStats.tripsCompletedAsDriver,
+        ridesJoined: profileStats.tripsJoined,
         rating: reviewStats.averageRating,
         totalReviews: reviewStats.totalReviews,
         distribution: reviewStats.distribution,
+        reliability: profileStats.reliability,
       }}
       listedRides={listedRides}
       completedRides={completedRides}
-      reviews={reviewsData.reviews}
+      reviews={reviewsData.reviews.map((review) => ({
+        id: review.id,
+        rating: review.rating,
+        comment: review.comment,
+        createdAt: review.createdAt,
+        reviewer: {
+          id: review.reviewer.id,
+          name: review.reviewer.name,
+          image: review.reviewer.image,
+        },
+        ride: {
+          id: review.booking.trip.id,
+          fromName: review.booking.trip.driverRoute.fromName,
+          toName: review.booking.trip.driverRoute.toName,
+        },
+      }))}
     />
   );
 }
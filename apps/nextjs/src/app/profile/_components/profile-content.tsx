@@ -22,6 +22,7 @@ import {
   Phone,
   Rocket,
   Settings,
+  ShieldCheck,
   Sparkles,
   Star,
   ThumbsUp,
@@ -64,6 +65,13 @@ interface ProfileStats {
     4: number;
     5: number;
   };
+  reliability?: {
+    bookingsCompleted: number;
+    cancellations: number;
+    lateCancellations: number;
+    noShows: number;
+    driverNoShows: number;
+  };
 }
 
 interface ListedRide {
@@ -572,6 +580,62 @@ export const ProfileContent: React.FC<ProfileContentProps> = ({
             </div>
           </div>
 
+          {/* Reliability */}
+          {stats.reliability && (
+            <div className="space-y-2 rounded-lg border p-4 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                <ShieldCheck className="text-primary size-4" />
+                Reliability
+              </div>
+              <div className="text-muted-foreground flex justify-between">
+                <span>Bookings completed</span>
+                <span className="text-foreground font-medium">
+                  {stats.reliability.bookingsCompleted}
+                </span>
+              </div>
+              <div className="text-muted-foreground flex justify-between">
+                <span>Cancellations</span>
+                <span className="text-foreground font-medium">
+                  {stats.reliability.cancellations}
+                </span>
+              </div>
+              <div className="text-muted-foreground flex justify-between">
+                <span>Late cancellations</span>
+                <span
+                  className={cn(
+                    "font-medium",
+                    stats.reliability.lateCancellations > 0
+                      ? "text-orange-600"
+                      : "text-foreground",
+                  )}
+                >
+                  {stats.reliability.lateCancellations}
+                </span>
+              </div>
+              <div className="text-muted-foreground flex justify-between">
+                <span>No-shows as passenger</span>
+                <span
+                  className={cn(
+                    "font-medium",
+                    stats.reliability.noShows > 0
+                      ? "text-red-600"
+                      : "text-foreground",
+                  )}
+                >
+                  {stats.reliability.noShows}
+                </span>
+              </div>
+              {stats.reliability.driverNoShows > 0 && (
+                <div className="text-muted-foreground flex justify-between">
+                  <span>No-shows as driver</span>
+                  <span className="font-medium text-red-600">
+                    {stats.reliability.driverNoShows}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* About */}
           <div className="rounded-xl">
             <div className="flex items-center justify-between px-4 py-3">
@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Loader2, UserCheck } from "lucide-react";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@app/ui/avatar";
+import { Button } from "@app/ui/button";
+import { Input } from "@app/ui/input";
+import { toast } from "@app/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+interface CheckInSectionProps {
+  tripId: string;
+}
+
+function getInitials(name: string | null | undefined): string {
+  if (!name) return "U";
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export function CheckInSection({ tripId }: CheckInSectionProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+
+  const { data: roster } = useQuery(
+    trpc.booking.checkInRoster.queryOptions({ tripId }),
+  );
+
+  const checkInMutation = useMutation(
+    trpc.booking.checkIn.mutationOptions({
+      onSuccess: (booking) => {
+        toast.success(`${booking.passenger.name} is checked in`);
+        setCode("");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Check-in failed", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const confirmNoShowMutation = useMutation(
+    trpc.noShow.confirm.mutationOptions({
+      onSuccess: () => {
+        toast.success("No-show confirmed");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to confirm no-show", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const withdrawNoShowMutation = useMutation(
+    trpc.noShow.withdraw.mutationOptions({
+      onSuccess: () => {
+        toast.success("Marked as ridden");
+        void queryClient.invalidateQueries();
+      },
+      onError: (error) => {
+        toast.error("Failed to withdraw no-show", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    checkInMutation.mutate({ tripId, code: code.trim() });
+  };
+
+  if (!roster || roster.passengers.length === 0) {
+    return null;
+  }
+
+  const isOpen =
+    (roster.tripStatus === "scheduled" ||
+      roster.tripStatus === "in_progress") &&
+    new Date() >= new Date(roster.checkInOpensAt);
+
+  return (
+    <section className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Passenger Check-In</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          {isOpen
+            ? "Enter the PIN each passenger shows you, or paste their scanned QR code."
+            : roster.tripStatus === "scheduled"
+              ? `Check-in opens ${format(new Date(roster.checkInOpensAt), "EEE, MMM d 'at' h:mm a")}.`
+              : "Check-in is closed for this trip."}
+        </p>
+      </div>
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit PIN"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={200}
+            className="max-w-48"
+          />
+          <Button
+            type="submit"
+            disabled={checkInMutation.isPending || !code.trim()}
+          >
+            {checkInMutation.isPending ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <UserCheck className="mr-2 size-4" />
+            )}
+            Check In
+          </Button>
+        </form>
+      )}
+
+      <ul className="divide-y rounded-lg border">
+        {roster.passengers.map((p) => (
+          <li
+            key={p.bookingId}
+            className="flex items-center justify-between gap-4 p-3"
+          >
+            <div className="flex items-center gap-3">
+              <Avatar className="size-8">
+                <AvatarImage
+                  src={p.passenger.image ?? undefined}
+                  alt={p.passenger.name}
+                />
+                <AvatarFallback className="text-xs">
+                  {getInitials(p.passenger.name)}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <p className="text-sm font-medium">{p.passenger.name}</p>
+                <p className="text-muted-foreground text-xs">
+                  {p.seatsBooked} seat{p.seatsBooked !== 1 ? "s" : ""}
+                  {p.pickupName && ` · Pickup at ${p.pickupName}`}
+                </p>
+              </div>
+            </div>
+
+            {p.boardedAt ? (
+              <span className="flex items-center gap-1 text-sm text-green-600">
+                <Check className="size-4" />
+                Boarded {format(new Date(p.boardedAt), "h:mm a")}
+              </span>
+            ) : p.noShowReport?.status === "unconfirmed" ? (
+              <div className="flex flex-col items-end gap-1">
+                <span className="text-muted-foreground text-xs">
+                  Not checked in. Confirm by{" "}
+                  {format(
+                    new Date(p.noShowReport.contestDeadline),
+                    "MMM d, h:mm a",
+                  )}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={withdrawNoShowMutation.isPending}
+                    onClick={() =>
+                      p.noShowReport &&
+                      withdrawNoShowMutation.mutate({
+                        reportId: p.noShowReport.id,
+                      })
+                    }
+                  >
+                    They Rode
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={confirmNoShowMutation.isPending}
+                    onClick={() =>
+                      p.noShowReport &&
+                      confirmNoShowMutation.mutate({
+                        reportId: p.noShowReport.id,
+                      })
+                    }
+                  >
+                    Confirm No-Show
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <span className="text-muted-foreground text-sm">
+                Not checked in
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,8 +1,18 @@
-import { format } from "date-fns";
-import { Calendar, Car, MapPin, Users } from "lucide-react";
+import Link from "next/link";
+import { addMinutes, format } from "date-fns";
+import {
+  Calendar,
+  Car,
+  CircleDot,
+  MapPin,
+  Repeat,
+  Users,
+  Zap,
+} from "lucide-react";
 
 import { Badge } from "@app/ui/badge";
 
+import type { ReturnTrip, WaitlistEntry } from "./user-route-selector";
 import type { PlacePrediction } from "~/app/_components/location-picker";
 import { UserRouteSelector } from "./user-route-selector";
 
@@ -14,9 +24,18 @@ interface RideHeaderProps {
     departureTime: Date;
     availableSeats: number;
     pricePerSeat: number | null;
+    pricingMode: "flat" | "distance";
+    instantBook: boolean;
+    returnTrip: ReturnTrip | null;
+    stops: {
+      id: string;
+      name: string;
+      offsetMinutes: number | null;
+    }[];
   };
   initialPickup: PlacePrediction | null;
   initialDropoff: PlacePrediction | null;
+  waitlistEntry?: WaitlistEntry | null;
   routeGeometry?: {
     type: "LineString";
     coordinates: [number, number][];
@@ -29,6 +48,7 @@ export const RideHeader: React.FC<RideHeaderProps> = ({
   ride,
   initialPickup,
   initialDropoff,
+  waitlistEntry,
   routeGeometry,
   userPickupLocation,
   userDropoffLocation,
@@ -53,6 +73,10 @@ export const RideHeader: React.FC<RideHeaderProps> = ({
             rideId={ride.id}
             initialPickup={initialPickup}
             initialDropoff={initialDropoff}
+            isFull={ride.availableSeats === 0}
+            instantBook={ride.instantBook}
+            returnTrip={ride.returnTrip}
+            waitlistEntry={waitlistEntry}
             routeGeometry={routeGeometry}
             userPickupLocation={userPickupLocation}
             userDropoffLocation={userDropoffLocation}
@@ -70,6 +94,10 @@ export const RideHeader: React.FC<RideHeaderProps> = ({
             rideId={ride.id}
             initialPickup={initialPickup}
             initialDropoff={initialDropoff}
+            isFull={ride.availableSeats === 0}
+            instantBook={ride.instantBook}
+            returnTrip={ride.returnTrip}
+            waitlistEntry={waitlistEntry}
             routeGeometry={routeGeometry}
             userPickupLocation={userPickupLocation}
             userDropoffLocation={userDropoffLocation}
@@ -103,6 +131,32 @@ export const RideHeader: React.FC<RideHeaderProps> = ({
           </div>
         </div>
 
+        {ride.stops.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-muted-foreground text-xs">Stops along the way</p>
+            <ol className="space-y-1.5">
+              {ride.stops.map((stop) => (
+                <li key={stop.id} className="flex items-center gap-3 text-sm">
+                  <CircleDot className="text-muted-foreground size-4 shrink-0" />
+                  <span className="font-medium">{stop.name}</span>
+                  {stop.offsetMinutes !== null && (
+                    <span className="text-muted-foreground">
+                      ~
+                      {format(
+                        addMinutes(
+                          new Date(ride.departureTime),
+                          stop.offsetMinutes,
+                        ),
+                        "h:mm a",
+                      )}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         <div className="flex flex-wrap gap-4 text-sm">
           <div className="flex items-center gap-2">
             <Calendar className="text-muted-foreground size-4" />
@@ -118,9 +172,38 @@ export const RideHeader: React.FC<RideHeaderProps> = ({
             </span>
           </div>
           <div className="font-medium">
-            ${(ride.pricePerSeat ?? 0) / 100} per seat
+            {ride.pricingMode === "distance" && !hasUserRoute && "Up to "}$
+            {(ride.pricePerSeat ?? 0) / 100} per seat
+            {ride.pricingMode === "distance" && hasUserRoute && (
+              <span className="text-muted-foreground font-normal">
+                {" "}
+                for your stretch
+              </span>
+            )}
           </div>
+          {ride.instantBook && (
+            <div className="flex items-center gap-2">
+              <Zap className="text-muted-foreground size-4" />
+              <span>Instant booking</span>
+            </div>
+          )}
         </div>
+
+        {ride.returnTrip && (
+          <div className="flex items-center gap-2 border-t pt-4 text-sm">
+            <Repeat className="text-muted-foreground size-4" />
+            <span>
+              Return trip available{" "}
+              <Link
+                href={`/ride/${ride.returnTrip.id}`}
+                className="font-medium hover:underline"
+              >
+                {format(new Date(ride.returnTrip.departureTime), "EEE, MMM d")}{" "}
+                at {format(new Date(ride.returnTrip.departureTime), "h:mm a")}
+              </Link>
+            </span>
+          </div>
+        )}
       </div>
     </section>
   );
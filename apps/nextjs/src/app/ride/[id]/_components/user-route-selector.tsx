@@ -3,9 +3,12 @@
 import { useCallback, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useMutation } from "@tanstack/react-query";
-import { Car, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Car, Clock, Loader2 } from "lucide-react";
 
 import { Button } from "@app/ui/button";
+import { Checkbox } from "@app/ui/checkbox";
+import { Label } from "@app/ui/label";
 import { Textarea } from "@app/ui/textarea";
 import { toast } from "@app/ui/toast";
 
@@ -14,10 +17,28 @@ import { LocationPicker } from "~/app/_components/location-picker";
 import { useTRPC } from "~/trpc/react";
 import { DirectionWarning } from "./direction-warning";
 
+export interface WaitlistEntry {
+  id: string;
+  status: string;
+  position: number | null;
+  offerExpiresAt: Date | null;
+}
+
+export interface ReturnTrip {
+  id: string;
+  departureTime: Date;
+  pricePerSeat: number | null;
+  availableSeats: number;
+}
+
 interface UserRouteSelectorProps {
   rideId: string;
   initialPickup?: PlacePrediction | null;
   initialDropoff?: PlacePrediction | null;
+  isFull?: boolean;
+  instantBook?: boolean;
+  returnTrip?: ReturnTrip | null;
+  waitlistEntry?: WaitlistEntry | null;
   routeGeometry?: {
     type: "LineString";
     coordinates: [number, number][];
@@ -30,6 +51,10 @@ export function UserRouteSelector({
   rideId,
   initialPickup = null,
   initialDropoff = null,
+  isFull = false,
+  instantBook = false,
+  returnTrip = null,
+  waitlistEntry = null,
   routeGeometry,
   userPickupLocation,
   userDropoffLocation,
@@ -38,13 +63,29 @@ export function UserRouteSelector({
   const searchParams = useSearchParams();
   const trpc = useTRPC();
   const [message, setMessage] = useState("");
+  const [includeReturn, setIncludeReturn] = useState(false);
 
   const createRequestMutation = useMutation(
     trpc.rideRequest.create.mutationOptions({
       onSuccess: (data) => {
-        toast.success("Ride request sent!", {
-          description: "The driver will be notified of your request.",
-        });
+        if (data.returnRequest) {
+          toast.success(
+            data.instantBooked && data.returnRequest.instantBooked
+              ? "Both legs are booked!"
+              : "Round trip requested!",
+            {
+              description: "The driver will be notified of both legs.",
+            },
+          );
+        } else if (data.instantBooked) {
+          toast.success("Your seat is booked!", {
+            description: "The driver has been notified of your booking.",
+          });
+        } else {
+          toast.success("Ride request sent!", {
+            description: "The driver will be notified of your request.",
+          });
+        }
         // Redirect to the conversation or requests page
         if (data.conversationId) {
           router.push(`/messages/${data.conversationId}`);
@@ -60,6 +101,36 @@ export function UserRouteSelector({
     }),
   );
 
+  const joinWaitlistMutation = useMutation(
+    trpc.waitlist.join.mutationOptions({
+      onSuccess: (data) => {
+        toast.success("You're on the waitlist!", {
+          description: `You're #${data.position ?? 1} in line. We'll hold a seat for you if one opens up.`,
+        });
+        router.refresh();
+      },
+      onError: (error) => {
+        toast.error("Failed to join the waitlist", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
+  const leaveWaitlistMutation = useMutation(
+    trpc.waitlist.leave.mutationOptions({
+      onSuccess: () => {
+        toast.success("You left the waitlist");
+        router.refresh();
+      },
+      onError: (error) => {
+        toast.error("Failed to leave the waitlist", {
+          description: error.message,
+        });
+      },
+    }),
+  );
+
   const updateUrl = useCallback(
     (pickup: PlacePrediction | null, dropoff: PlacePrediction | null) => {
       const params = new URLSearchParams(searchParams);
@@ -109,17 +180,82 @@ export function UserRouteSelector({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    createRequestMutation.mutate({
+    const details = {
       rideId,
       pickupPlaceId: initialPickup?.placeId,
       pickupName: initialPickup?.mainText,
+      pickupLat: userPickupLocation?.lat,
+      pickupLng: userPickupLocation?.lng,
       dropoffPlaceId: initialDropoff?.placeId,
       dropoffName: initialDropoff?.mainText,
+      dropoffLat: userDropoffLocation?.lat,
+      dropoffLng: userDropoffLocation?.lng,
       message: message.trim() || undefined,
-    });
+    };
+
+    if (isFull) {
+      joinWaitlistMutation.mutate(details);
+    } else {
+      createRequestMutation.mutate({ ...details, includeReturn });
+    }
   };
 
-  const isSubmitting = createRequestMutation.isPending;
+  const isSubmitting =
+    createRequestMutation.isPending || joinWaitlistMutation.isPending;
+
+  if (waitlistEntry) {
+    return (
+      <div className="space-y-4">
+        <div className="bg-muted/50 flex items-start gap-3 rounded-lg border p-4">
+          <Clock className="text-muted-foreground mt-0.5 size-5 shrink-0" />
+          <div className="text-sm">
+            {waitlistEntry.status === "offered" &&
+            waitlistEntry.offerExpiresAt ? (
+              <>
+                <p className="font-medium">A seat is being held for you</p>
+                <p className="text-muted-foreground">
+                  Accept it from your requests before{" "}
+                  {format(waitlistEntry.offerExpiresAt, "h:mm a")}.
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium">
+                  You&apos;re #{waitlistEntry.position ?? 1} on the waitlist
+                </p>
+                <p className="text-muted-foreground">
+                  We&apos;ll hold a seat for you if one opens up.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {waitlistEntry.status === "offered" && (
+            <Button
+              className="flex-1"
+              onClick={() => router.push("/my-requests")}
+            >
+              View offer
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={leaveWaitlistMutation.isPending}
+            onClick={() =>
+              leaveWaitlistMutation.mutate({ entryId: waitlistEntry.id })
+            }
+          >
+            {leaveWaitlistMutation.isPending && (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            )}
+            Leave waitlist
+          </Button>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
@@ -157,6 +293,32 @@ export function UserRouteSelector({
         />
       )}
 
+      {returnTrip && !isFull && (
+        <div className="flex items-center gap-3">
+          <Checkbox
+            id="include-return"
+            checked={includeReturn}
+            disabled={isSubmitting || returnTrip.availableSeats === 0}
+            onCheckedChange={(checked) => setIncludeReturn(checked === true)}
+          />
+          <Label
+            htmlFor="include-return"
+            className="cursor-pointer font-normal"
+          >
+            {returnTrip.availableSeats === 0
+              ? "The return trip is full"
+              : `Also book the return trip on ${format(new Date(returnTrip.departureTime), "EEE, MMM d 'at' h:mm a")}`}
+          </Label>
+        </div>
+      )}
+
+      {isFull && (
+        <p className="text-muted-foreground text-sm">
+          This ride is full. Join the waitlist and we&apos;ll hold a seat for
+          you if one opens up.
+        </p>
+      )}
+
       <Button
         type="submit"
         variant="default"
@@ -167,12 +329,17 @@ export function UserRouteSelector({
         {isSubmitting ? (
           <>
             <Loader2 className="mr-2 size-4 animate-spin" />
-            Sending request...
+            {isFull ? "Joining waitlist..." : "Sending request..."}
+          </>
+        ) : isFull ? (
+          <>
+            <Clock className="mr-2 size-4" />
+            Join the waitlist
           </>
         ) : (
           <>
             <Car className="mr-2 size-4" />
-            Request a ride
+            {instantBook ? "Book now" : "Request a ride"}
           </>
         )}
       </Button>
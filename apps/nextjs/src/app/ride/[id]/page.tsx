@@ -7,6 +7,7 @@ import { Separator } from "@app/ui/separator";
 import { getSession } from "~/auth/server";
 import { env } from "~/env";
 import { fetchQuery, trpc } from "~/trpc/server";
+import { CheckInSection } from "./_components/check-in-section";
 import { DriverSection } from "./_components/driver-section";
 import { RideComparisonMap } from "./_components/ride-comparison-map";
 import { RideHeader } from "./_components/ride-header";
@@ -55,35 +56,47 @@ export default async function RidePage({
   const { pickup: userPickupPlaceId, dropoff: userDropoffPlaceId } =
     await searchParams;
 
-  const [ride, session] = await Promise.all([
-    fetchQuery(trpc.ride.byId.queryOptions({ id })).catch(() => null),
+  const [session, userPickupDetails, userDropoffDetails] = await Promise.all([
     getSession(),
+    userPickupPlaceId
+      ? fetchQuery(
+          trpc.places.getDetails.queryOptions({ placeId: userPickupPlaceId }),
+        ).catch(() => null)
+      : null,
+    userDropoffPlaceId
+      ? fetchQuery(
+          trpc.places.getDetails.queryOptions({
+            placeId: userDropoffPlaceId,
+          }),
+        ).catch(() => null)
+      : null,
   ]);
 
+  // Seats are counted along the passenger's own stretch of the route
+  const ride = await fetchQuery(
+    trpc.ride.byId.queryOptions({
+      id,
+      pickup: userPickupDetails?.location ?? undefined,
+      dropoff: userDropoffDetails?.location ?? undefined,
+    }),
+  ).catch(() => null);
+
   if (!ride) {
     notFound();
   }
 
-  const [driverStats, userPickupDetails, userDropoffDetails] =
-    await Promise.all([
-      fetchQuery(
-        trpc.review.stats.queryOptions({ userId: ride.driverId }),
-      ).catch(() => null),
-      userPickupPlaceId
-        ? fetchQuery(
-            trpc.places.getDetails.queryOptions({ placeId: userPickupPlaceId }),
-          ).catch(() => null)
-        : null,
-      userDropoffPlaceId
-        ? fetchQuery(
-            trpc.places.getDetails.queryOptions({
-              placeId: userDropoffPlaceId,
-            }),
-          ).catch(() => null)
-        : null,
-    ]);
-
-  const _isOwnRide = session?.user.id === ride.driverId;
+  const [driverStats, waitlistEntry] = await Promise.all([
+    fetchQuery(trpc.review.stats.queryOptions({ userId: ride.driverId })).catch(
+      () => null,
+    ),
+    session?.user
+      ? fetchQuery(trpc.waitlist.forRide.queryOptions({ rideId: id })).catch(
+          () => null,
+        )
+      : null,
+  ]);
+
+  const isOwnRide = session?.user.id === ride.driverId;
   const _isLoggedIn = !!session?.user;
   const googleMapsApiKey = env.GOOGLE_MAPS_API_KEY;
 
@@ -130,9 +143,14 @@ export default async function RidePage({
               departureTime: ride.departureTime,
               availableSeats: ride.availableSeats,
               pricePerSeat: ride.pricePerSeat,
+              pricingMode: ride.pricingMode,
+              instantBook: ride.instantBook,
+              returnTrip: ride.returnTrip,
+              stops: ride.stops,
             }}
             initialPickup={initialPickup}
             initialDropoff={initialDropoff}
+            waitlistEntry={waitlistEntry}
             routeGeometry={routeGeometry}
             userPickupLocation={userPickupDetails?.location ?? null}
             userDropoffLocation={userDropoffDetails?.location ?? null}
@@ -157,6 +175,8 @@ export default async function RidePage({
             />
           </div>
 
+          {isOwnRide && <CheckInSection tripId={ride.id} />}
+
           <Separator />
 
           <DriverSection
@@ -0,0 +1,73 @@
+import type { LuggageSize, TripAmenity, TripSort } from "@app/validators";
+import { LUGGAGE_SIZES, TRIP_AMENITIES, TRIP_SORTS } from "@app/validators";
+
+/**
+ * Result filters and sort as kept in the search URL:
+ * `?amenities=bikes,pets&luggage=medium&maxPrice=25&rating=4&seats=2&sort=cheapest`
+ */
+export interface ResultFilterValues {
+  amenities: TripAmenity[];
+  minLuggageSize: LuggageSize | null;
+  /** In dollars, as typed; the API takes cents */
+  maxPrice: number | null;
+  minDriverRating: number | null;
+  minSeats: number;
+  sort: TripSort;
+}
+
+export const FILTER_PARAMS = {
+  amenities: "amenities",
+  minLuggageSize: "luggage",
+  maxPrice: "maxPrice",
+  minDriverRating: "rating",
+  minSeats: "seats",
+  sort: "sort",
+} as const satisfies Record<keyof ResultFilterValues, string>;
+
+function positiveNumber(value: string | undefined) {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number > 0 ? number : null;
+}
+
+/**
+ * Read result filters from search params, dropping anything invalid
+ */
+export function parseResultFilters(
+  params: Partial<Record<string, string>>,
+): ResultFilterValues {
+  const amenities = (params[FILTER_PARAMS.amenities] ?? "")
+    .split(",")
+    .filter((a): a is TripAmenity =>
+      (TRIP_AMENITIES as readonly string[]).includes(a),
+    );
+  const luggage = params[FILTER_PARAMS.minLuggageSize];
+  const rating = positiveNumber(params[FILTER_PARAMS.minDriverRating]);
+  const seats = positiveNumber(params[FILTER_PARAMS.minSeats]);
+  const sort = params[FILTER_PARAMS.sort];
+
+  return {
+    amenities,
+    minLuggageSize: LUGGAGE_SIZES.find((size) => size === luggage) ?? null,
+    maxPrice: positiveNumber(params[FILTER_PARAMS.maxPrice]),
+    minDriverRating: rating === null ? null : Math.min(Math.max(rating, 1), 5),
+    minSeats: seats === null ? 1 : Math.min(Math.floor(seats), 10),
+    sort: TRIP_SORTS.find((s) => s === sort) ?? "bestMatch",
+  };
+}
+
+/**
+ * The `findDrivers` inputs for a set of result filters
+ */
+export function resultFiltersInput(filters: ResultFilterValues) {
+  return {
+    amenities: filters.amenities,
+    minLuggageSize: filters.minLuggageSize ?? undefined,
+    maxPricePerSeat:
+      filters.maxPrice === null
+        ? undefined
+        : Math.round(filters.maxPrice * 100),
+    minDriverRating: filters.minDriverRating ?? undefined,
+    minSeats: filters.minSeats,
+    sort: filters.sort,
+  };
+}
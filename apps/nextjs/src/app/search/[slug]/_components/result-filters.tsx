@@ -0,0 +1,231 @@
+"use client";
+
+import type { LucideIcon } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Bike, PawPrint, SlidersHorizontal, Snowflake } from "lucide-react";
+
+import type { LuggageSize, TripAmenity, TripSort } from "@app/validators";
+import { Button } from "@app/ui/button";
+import { Checkbox } from "@app/ui/checkbox";
+import { Input } from "@app/ui/input";
+import { Label } from "@app/ui/label";
+
+import type { ResultFilterValues } from "./filter-params";
+import { FILTER_PARAMS } from "./filter-params";
+
+const AMENITY_OPTIONS: {
+  value: TripAmenity;
+  label: string;
+  Icon: LucideIcon;
+}[] = [
+  { value: "bikes", label: "Bikes allowed", Icon: Bike },
+  { value: "skis", label: "Skis allowed", Icon: Snowflake },
+  { value: "pets", label: "Pets allowed", Icon: PawPrint },
+  { value: "winterTires", label: "Winter tires", Icon: Snowflake },
+];
+
+const LUGGAGE_OPTIONS: { value: LuggageSize | null; label: string }[] = [
+  { value: null, label: "Any" },
+  { value: "small", label: "Small" },
+  { value: "medium", label: "Medium" },
+  { value: "large", label: "Large" },
+];
+
+const SORT_OPTIONS: { value: TripSort; label: string }[] = [
+  { value: "bestMatch", label: "Best match" },
+  { value: "earliest", label: "Earliest" },
+  { value: "cheapest", label: "Cheapest" },
+  { value: "topRated", label: "Top rated" },
+];
+
+const RATING_OPTIONS = [null, 3, 4, 4.5] as const;
+
+const SEAT_OPTIONS = [1, 2, 3, 4] as const;
+
+interface ResultFiltersProps {
+  filters: ResultFilterValues;
+}
+
+export function ResultFilters({ filters }: ResultFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Filters live in the URL so searches can be shared
+  const setFilter = (
+    key: keyof ResultFilterValues,
+    value: string | number | null,
+  ) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value === null || value === "") {
+      params.delete(FILTER_PARAMS[key]);
+    } else {
+      params.set(FILTER_PARAMS[key], String(value));
+    }
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+
+  const toggleAmenity = (amenity: TripAmenity, checked: boolean) => {
+    const amenities = checked
+      ? [...filters.amenities, amenity]
+      : filters.amenities.filter((a) => a !== amenity);
+    setFilter("amenities", amenities.join(","));
+  };
+
+  const clearFilters = () => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, param] of Object.entries(FILTER_PARAMS)) {
+      if (key !== "sort") params.delete(param);
+    }
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+
+  const hasFilters =
+    filters.amenities.length > 0 ||
+    filters.minLuggageSize !== null ||
+    filters.maxPrice !== null ||
+    filters.minDriverRating !== null ||
+    filters.minSeats > 1;
+
+  return (
+    <section className="space-y-5 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold">
+          <SlidersHorizontal className="size-4" />
+          Sort &amp; Filter
+        </h2>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      {/* Sort */}
+      <div className="space-y-2">
+        <Label className="text-xs">Sort by</Label>
+        <div className="flex flex-wrap gap-2">
+          {SORT_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={filters.sort === option.value ? "default" : "outline"}
+              onClick={() =>
+                setFilter(
+                  "sort",
+                  option.value === "bestMatch" ? null : option.value,
+                )
+              }
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Seats */}
+      <div className="space-y-2">
+        <Label className="text-xs">Seats needed</Label>
+        <div className="flex flex-wrap gap-2">
+          {SEAT_OPTIONS.map((seats) => (
+            <Button
+              key={seats}
+              type="button"
+              size="sm"
+              variant={filters.minSeats === seats ? "default" : "outline"}
+              onClick={() => setFilter("minSeats", seats === 1 ? null : seats)}
+            >
+              {seats === SEAT_OPTIONS.length ? `${seats}+` : seats}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Price */}
+      <div className="space-y-2">
+        <Label htmlFor="max-price" className="text-xs">
+          Max price per seat ($)
+        </Label>
+        <Input
+          // Remount when the URL changes so the field shows the applied value
+          key={filters.maxPrice ?? "none"}
+          id="max-price"
+          type="number"
+          min={0}
+          step={1}
+          inputMode="numeric"
+          placeholder="Any price"
+          defaultValue={filters.maxPrice ?? ""}
+          onBlur={(e) => setFilter("maxPrice", e.target.value || null)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          className="h-9"
+        />
+      </div>
+
+      {/* Driver rating */}
+      <div className="space-y-2">
+        <Label className="text-xs">Driver rating</Label>
+        <div className="flex flex-wrap gap-2">
+          {RATING_OPTIONS.map((rating) => (
+            <Button
+              key={rating ?? "any"}
+              type="button"
+              size="sm"
+              variant={
+                filters.minDriverRating === rating ? "default" : "outline"
+              }
+              onClick={() => setFilter("minDriverRating", rating)}
+            >
+              {rating === null ? "Any" : `${rating}+ ★`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Luggage */}
+      <div className="space-y-2">
+        <Label className="text-xs">Luggage space, at least</Label>
+        <div className="flex flex-wrap gap-2">
+          {LUGGAGE_OPTIONS.map((option) => (
+            <Button
+              key={option.label}
+              type="button"
+              size="sm"
+              variant={
+                filters.minLuggageSize === option.value ? "default" : "outline"
+              }
+              onClick={() => setFilter("minLuggageSize", option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Amenities */}
+      <div className="space-y-2">
+        <Label className="text-xs">Must offer</Label>
+        <div className="space-y-2">
+          {AMENITY_OPTIONS.map(({ value, label, Icon }) => (
+            <label
+              key={value}
+              htmlFor={`amenity-${value}`}
+              className="flex cursor-pointer items-center gap-2 text-sm"
+            >
+              <Checkbox
+                id={`amenity-${value}`}
+                checked={filters.amenities.includes(value)}
+                onCheckedChange={(c) => toggleAmenity(value, c === true)}
+              />
+              <Icon className="text-muted-foreground size-4" />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
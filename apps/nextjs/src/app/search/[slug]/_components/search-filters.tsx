@@ -5,6 +5,7 @@ import { useQuery } from "@tanstack/react-query";
 import { parse } from "date-fns";
 
 import type { PlacePrediction } from "~/app/_components/location-picker";
+import type { TimeWindow } from "~/app/_components/ride-search";
 import { RideSearch } from "~/app/_components/ride-search";
 import { useTRPC } from "~/trpc/react";
 
@@ -12,6 +13,8 @@ interface SearchFiltersProps {
   fromPlaceId: string | null;
   toPlaceId: string | null;
   dateParam: string | null;
+  flexibilityDays: number;
+  timeWindow: TimeWindow | null;
   mode?: "driver" | "passenger";
 }
 
@@ -19,6 +22,8 @@ export function SearchFilters({
   fromPlaceId,
   toPlaceId,
   dateParam,
+  flexibilityDays: initialFlexibilityDays,
+  timeWindow: initialTimeWindow,
   mode = "driver",
 }: SearchFiltersProps) {
   const trpc = useTRPC();
@@ -35,6 +40,12 @@ export function SearchFilters({
     }
     return undefined;
   });
+  const [flexibilityDays, setFlexibilityDays] = useState(
+    initialFlexibilityDays,
+  );
+  const [timeWindow, setTimeWindow] = useState<TimeWindow | null>(
+    initialTimeWindow,
+  );
 
   const { data: fromData } = useQuery(
     trpc.places.getDetails.queryOptions(
@@ -85,6 +96,10 @@ export function SearchFilters({
       onToLocationChange={setToOverride}
       date={date}
       onDateChange={setDate}
+      flexibilityDays={flexibilityDays}
+      onFlexibilityDaysChange={setFlexibilityDays}
+      timeWindow={timeWindow}
+      onTimeWindowChange={setTimeWindow}
       mode={mode}
     />
   );
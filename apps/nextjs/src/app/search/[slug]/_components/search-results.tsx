@@ -4,19 +4,35 @@ import { useMemo } from "react";
 import Link from "next/link";
 import { useQuery } from "@tanstack/react-query";
 import { format, isToday, isTomorrow, startOfDay } from "date-fns";
-import { Calendar, Car, MapPin, Navigation, Star, Users } from "lucide-react";
+import {
+  Calendar,
+  Car,
+  Check,
+  MapPin,
+  Minus,
+  Navigation,
+  Star,
+  Users,
+} from "lucide-react";
 
 import { Avatar, AvatarFallback, AvatarImage } from "@app/ui/avatar";
+import { Badge } from "@app/ui/badge";
 import { Button } from "@app/ui/button";
 import { Skeleton } from "@app/ui/skeleton";
 
+import type { ResultFilterValues } from "./filter-params";
+import type { TimeWindow } from "~/app/_components/ride-search";
 import { useTRPC } from "~/trpc/react";
+import { resultFiltersInput } from "./filter-params";
 import { useSearchContext } from "./search-context";
 
 interface SearchResultsProps {
   fromPlaceId: string | null;
   toPlaceId: string | null;
   date?: string | null;
+  flexibilityDays?: number;
+  timeWindow?: TimeWindow | null;
+  filters?: ResultFilterValues;
   mode?: "driver" | "passenger";
 }
 
@@ -30,17 +46,36 @@ function getInitials(name: string | null | undefined): string {
     .slice(0, 2);
 }
 
+interface MatchedStop {
+  stop: { name: string };
+  distanceKm: number;
+}
+
 interface TripData {
   id: string;
   departureTime: Date;
   seatsAvailable: number;
+  pricePerSeat: number | null;
   pickupDistanceKm: number;
   dropoffDistanceKm: number;
+  pickupStop: MatchedStop | null;
+  dropoffStop: MatchedStop | null;
+  minutesFromRequestedTime: number | null;
+  matchQuality: {
+    score: number;
+    label: string;
+    highlights: string[];
+    drawbacks: string[];
+  };
+  driverRating: {
+    averageRating: number | null;
+    totalReviews: number;
+  };
   driverRoute: {
     fromName: string;
     toName: string;
-    pricePerSeat: number | null;
     routeGeometry: GeoJSON.LineString;
+    stops: { id: string; name: string }[];
   };
   driver: {
     id: string;
@@ -53,19 +88,15 @@ interface SearchTripCardProps {
   trip: TripData;
   fromPlaceId: string;
   toPlaceId: string;
+  /** Show the departure day, for lists not grouped by date */
+  showDate?: boolean;
 }
 
-// Group trips by date and sort from newest to oldest
+// Group trips by date, keeping the order they came in within each date
 function groupTripsByDate(trips: TripData[]): Map<string, TripData[]> {
   const grouped = new Map<string, TripData[]>();
 
-  // Sort trips by departure time (newest first)
-  const sortedTrips = [...trips].sort(
-    (a, b) =>
-      new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime(),
-  );
-
-  for (const trip of sortedTrips) {
+  for (const trip of trips) {
     const dateKey = startOfDay(new Date(trip.departureTime)).toISOString();
     const existing = grouped.get(dateKey) ?? [];
     grouped.set(dateKey, [...existing, trip]);
@@ -87,7 +118,12 @@ function formatDateHeader(dateKey: string): string {
   return format(date, "EEEE, MMMM d");
 }
 
-function SearchTripCard({ trip, fromPlaceId, toPlaceId }: SearchTripCardProps) {
+function SearchTripCard({
+  trip,
+  fromPlaceId,
+  toPlaceId,
+  showDate = false,
+}: SearchTripCardProps) {
   const departureDate = new Date(trip.departureTime);
   const { setHoveredTrip } = useSearchContext();
 
@@ -127,7 +163,14 @@ function SearchTripCard({ trip, fromPlaceId, toPlaceId }: SearchTripCardProps) {
               <p className="font-medium">{trip.driver.name}</p>
               <div className="text-muted-foreground flex items-center gap-1 text-sm">
                 <Star className="size-3 fill-yellow-400 text-yellow-400" />
-                <span>New driver</span>
+                {trip.driverRating.averageRating !== null ? (
+                  <span>
+                    {trip.driverRating.averageRating.toFixed(1)} (
+                    {trip.driverRating.totalReviews})
+                  </span>
+                ) : (
+                  <span>New driver</span>
+                )}
               </div>
             </div>
           </div>
@@ -136,13 +179,17 @@ function SearchTripCard({ trip, fromPlaceId, toPlaceId }: SearchTripCardProps) {
             <p className="text-xl font-bold">
               {format(departureDate, "h:mm a")}
             </p>
-            <p className="text-muted-foreground text-xs">departure</p>
+            <p className="text-muted-foreground text-xs">
+              {showDate
+                ? formatDateHeader(departureDate.toISOString())
+                : "departure"}
+            </p>
           </div>
 
           {/* Price */}
           <div className="text-right">
             <p className="text-xl font-bold">
-              ${((trip.driverRoute.pricePerSeat ?? 0) / 100).toFixed(0)}
+              ${((trip.pricePerSeat ?? 0) / 100).toFixed(0)}
             </p>
             <p className="text-muted-foreground text-xs">per seat</p>
           </div>
@@ -157,7 +204,9 @@ function SearchTripCard({ trip, fromPlaceId, toPlaceId }: SearchTripCardProps) {
                 {trip.driverRoute.fromName}
               </p>
               <p className="text-muted-foreground text-xs">
-                ~{trip.pickupDistanceKm} km from pickup
+                {trip.pickupStop
+                  ? `Pickup at ${trip.pickupStop.stop.name} (~${trip.pickupStop.distanceKm} km)`
+                  : `~${trip.pickupDistanceKm} km from pickup`}
               </p>
             </div>
 
@@ -172,20 +221,52 @@ function SearchTripCard({ trip, fromPlaceId, toPlaceId }: SearchTripCardProps) {
             <div className="min-w-0 shrink-0 text-right">
               <p className="truncate font-medium">{trip.driverRoute.toName}</p>
               <p className="text-muted-foreground text-xs">
-                ~{trip.dropoffDistanceKm} km from dropoff
+                {trip.dropoffStop
+                  ? `Dropoff at ${trip.dropoffStop.stop.name} (~${trip.dropoffStop.distanceKm} km)`
+                  : `~${trip.dropoffDistanceKm} km from dropoff`}
               </p>
             </div>
           </div>
+          {trip.driverRoute.stops.length > 0 && (
+            <p className="text-muted-foreground mt-2 truncate text-xs">
+              via {trip.driverRoute.stops.map((stop) => stop.name).join(", ")}
+            </p>
+          )}
         </div>
 
         {/* Bottom row: seats available */}
-        <div className="flex items-center gap-1.5 text-sm">
-          <Users className="text-muted-foreground size-4" />
-          <span>
-            {trip.seatsAvailable} seat{trip.seatsAvailable !== 1 ? "s" : ""}{" "}
-            available
-          </span>
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <div className="flex items-center gap-1.5">
+            <Users className="text-muted-foreground size-4" />
+            <span>
+              {trip.seatsAvailable} seat{trip.seatsAvailable !== 1 ? "s" : ""}{" "}
+              available
+            </span>
+          </div>
+          <Badge variant="secondary">{trip.matchQuality.label}</Badge>
         </div>
+
+        {/* Why this trip matches */}
+        {(trip.matchQuality.highlights.length > 0 ||
+          trip.matchQuality.drawbacks.length > 0) && (
+          <div className="mt-3 space-y-1 border-t pt-3 text-xs">
+            {trip.matchQuality.highlights.map((highlight) => (
+              <p key={highlight} className="flex items-center gap-1.5">
+                <Check className="size-3 text-green-600" />
+                {highlight}
+              </p>
+            ))}
+            {trip.matchQuality.drawbacks.map((drawback) => (
+              <p
+                key={drawback}
+                className="text-muted-foreground flex items-center gap-1.5"
+              >
+                <Minus className="size-3" />
+                {drawback}
+              </p>
+            ))}
+          </div>
+        )}
       </div>
     </Link>
   );
@@ -228,6 +309,9 @@ export function SearchResults({
   fromPlaceId,
   toPlaceId,
   date,
+  flexibilityDays = 0,
+  timeWindow,
+  filters,
   mode = "driver",
 }: SearchResultsProps) {
   const trpc = useTRPC();
@@ -271,7 +355,10 @@ export function SearchResults({
       {
         pickup: from,
         dropoff: to,
-        date: date ? new Date(date) : undefined,
+        date: date ?? undefined,
+        flexibilityDays,
+        timeWindow: timeWindow ?? undefined,
+        ...(filters && resultFiltersInput(filters)),
         radiusKm: 25,
         limit: 20,
       },
@@ -285,15 +372,13 @@ export function SearchResults({
 
   const isLoading = fromLoading || toLoading || (canSearch && searchLoading);
 
-  // Group trips by date (must be before early returns for hook rules)
+  // Group trips by date when sorted by time (must be before early returns
+  // for hook rules); other sorts are shown in the order they were ranked
   const groupedTrips = useMemo(() => {
     if (!tripResults) return new Map<string, TripData[]>();
-    const tripsWithSeats = tripResults.map((trip) => ({
-      ...trip,
-      seatsAvailable: 0,
-    }));
-    return groupTripsByDate(tripsWithSeats);
+    return groupTripsByDate(tripResults);
   }, [tripResults]);
+  const groupByDate = filters?.sort === "earliest";
 
   if (isLoading) {
     return <SearchResultsSkeleton />;
@@ -362,17 +447,37 @@ export function SearchResults({
             <>
               No trips found for this route yet.
               <br />
-              Check back later or post your own trip!
+              Post a ride request and let drivers come to you!
             </>
           )}
         </p>
         <Button className="mt-4" asChild>
-          <a href="/post/driver">Post a Trip</a>
+          {isPassengerSearch ? (
+            <a href="/post/driver">Post a Trip</a>
+          ) : (
+            <a href="/post/passenger">Post a Ride Request</a>
+          )}
         </Button>
       </div>
     );
   }
 
+  if (!groupByDate) {
+    return (
+      <div className="space-y-3">
+        {searchResults.map((trip) => (
+          <SearchTripCard
+            key={trip.id}
+            trip={trip}
+            fromPlaceId={fromPlaceId}
+            toPlaceId={toPlaceId}
+            showDate
+          />
+        ))}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {[...groupedTrips.entries()].map(([dateKey, trips]) => (
@@ -409,6 +514,9 @@ export function SearchResultsHeader({
   fromPlaceId,
   toPlaceId,
   date,
+  flexibilityDays = 0,
+  timeWindow,
+  filters,
   mode = "driver",
 }: SearchResultsProps) {
   const trpc = useTRPC();
@@ -444,7 +552,10 @@ export function SearchResultsHeader({
           lat: toData?.location?.lat ?? 0,
           lng: toData?.location?.lng ?? 0,
         },
-        date: date ? new Date(date) : undefined,
+        date: date ?? undefined,
+        flexibilityDays,
+        timeWindow: timeWindow ?? undefined,
+        ...(filters && resultFiltersInput(filters)),
         radiusKm: 25,
         limit: 20,
       },
@@ -3,6 +3,8 @@ import type { Metadata } from "next";
 import { Navbar } from "~/app/_components/navbar";
 import { env } from "~/env";
 import { fetchQuery, trpc } from "~/trpc/server";
+import { parseResultFilters } from "./_components/filter-params";
+import { ResultFilters } from "./_components/result-filters";
 import { SearchProvider } from "./_components/search-context";
 import { SearchFilters } from "./_components/search-filters";
 import { SearchMap } from "./_components/search-map";
@@ -17,7 +19,16 @@ interface SearchPageProps {
     from?: string;
     to?: string;
     date?: string;
+    flex?: string;
+    leaveAfter?: string;
+    leaveBefore?: string;
     mode?: "driver" | "passenger";
+    amenities?: string;
+    luggage?: string;
+    maxPrice?: string;
+    rating?: string;
+    seats?: string;
+    sort?: string;
   }>;
 }
 
@@ -57,12 +68,22 @@ export async function generateMetadata({
 }
 
 export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const query = await searchParams;
   const {
     from: fromPlaceId,
     to: toPlaceId,
     date: dateParam,
+    flex,
+    leaveAfter,
+    leaveBefore,
     mode = "driver",
-  } = await searchParams;
+  } = query;
+
+  const flexibilityDays = Math.min(Math.max(Number(flex) || 0, 0), 7);
+  const timeWindow =
+    leaveAfter && leaveBefore ? { from: leaveAfter, to: leaveBefore } : null;
+  // Unknown sorts fall back to best match (see `parseResultFilters`)
+  const filters = parseResultFilters(query);
 
   const [fromPlace, toPlace] = await Promise.all([
     fromPlaceId
@@ -88,6 +109,8 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
           fromPlaceId={fromPlaceId ?? null}
           toPlaceId={toPlaceId ?? null}
           dateParam={dateParam ?? null}
+          flexibilityDays={flexibilityDays}
+          timeWindow={timeWindow}
           mode={mode}
         />
 
@@ -103,6 +126,9 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
                   fromPlaceId={fromPlaceId ?? null}
                   toPlaceId={toPlaceId ?? null}
                   date={dateParam}
+                  flexibilityDays={flexibilityDays}
+                  timeWindow={timeWindow}
+                  filters={filters}
                   mode={mode}
                 />
               </div>
@@ -111,12 +137,16 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
                 fromPlaceId={fromPlaceId ?? null}
                 toPlaceId={toPlaceId ?? null}
                 date={dateParam}
+                flexibilityDays={flexibilityDays}
+                timeWindow={timeWindow}
+                filters={filters}
                 mode={mode}
               />
             </div>
 
-            {/* Map sidebar */}
-            <div className="lg:sticky lg:top-4 lg:self-start">
+            {/* Filters and map sidebar */}
+            <div className="space-y-4 lg:sticky lg:top-4 lg:self-start">
+              {mode === "driver" && <ResultFilters filters={filters} />}
               <div className="overflow-hidden rounded-lg border">
                 <div className="h-[400px]">
                   <SearchMap
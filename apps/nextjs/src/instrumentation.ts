@@ -24,5 +24,10 @@ export async function register() {
     } else {
       console.log("Migrations are disabled");
     }
+
+    const { startScheduledJobs } = await import("@app/api");
+    const { db } = await import("@app/db/client");
+    startScheduledJobs(db);
+    console.log("Scheduled jobs started");
   }
 }
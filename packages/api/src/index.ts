@@ -19,5 +19,6 @@ type RouterInputs = inferRouterInputs<AppRouter>;
 type RouterOutputs = inferRouterOutputs<AppRouter>;
 
 export { type AppRouter, appRouter } from "./root";
+export { startScheduledJobs } from "./scheduler";
 export { createTRPCContext } from "./trpc";
 export type { RouterInputs, RouterOutputs };
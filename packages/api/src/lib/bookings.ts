@@ -0,0 +1,163 @@
+import type { LineString } from "geojson";
+import { TRPCError } from "@trpc/server";
+import * as turf from "@turf/turf";
+
+import type { Transaction } from "@app/db/client";
+import { eq } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import type { SeatLeg } from "./seats";
+import { legSpan, reserveSeats } from "./seats";
+
+/** Distance-priced fares are rounded to whole dollars, like posted prices */
+export const FARE_ROUNDING_CENTS = 100;
+
+/**
+ * Price per seat on a trip: its own override, or the route's default
+ */
+export function tripPricePerSeat(t: {
+  pricePerSeat: number | null;
+  driverRoute: { pricePerSeat: number | null };
+}) {
+  return t.pricePerSeat ?? t.driverRoute.pricePerSeat;
+}
+
+/**
+ * Price per seat for a passenger's leg of a trip.
+ *
+ * Flat-priced routes charge the trip's price whatever the leg. Distance-priced
+ * routes charge the share of it matching the share of the route ridden,
+ * rounded to `FARE_ROUNDING_CENTS` and never below the route's minimum fare
+ * (or above the full price).
+ */
+export function legPricePerSeat(
+  t: {
+    pricePerSeat: number | null;
+    driverRoute: {
+      pricePerSeat: number | null;
+      pricingMode: "flat" | "distance";
+      minimumFare: number | null;
+      routeGeometry: LineString;
+    };
+  },
+  leg?: SeatLeg,
+) {
+  const fullPrice = tripPricePerSeat(t);
+  if (fullPrice === null || t.driverRoute.pricingMode === "flat") {
+    return fullPrice;
+  }
+
+  // Positions along the route are measured on the geometry, so compare
+  // against its length rather than the driving distance
+  const routeKm = turf.length(turf.feature(t.driverRoute.routeGeometry), {
+    units: "kilometers",
+  });
+  if (routeKm === 0) return fullPrice;
+
+  const span = legSpan(t.driverRoute.routeGeometry, leg);
+  const share =
+    Math.max(0, Math.min(span.endKm, routeKm) - span.startKm) / routeKm;
+  const price =
+    Math.round((fullPrice * share) / FARE_ROUNDING_CENTS) * FARE_ROUNDING_CENTS;
+
+  return Math.min(fullPrice, Math.max(t.driverRoute.minimumFare ?? 0, price));
+}
+
+/**
+ * Turn a passenger request into a confirmed booking on a trip.
+ *
+ * Reserves the seats along the passenger's leg (locking the trip), inserts the booking and marks the
+ * request accepted, all inside the caller's transaction.
+ */
+export async function confirmRequest(
+  tx: Transaction,
+  request: schema.PassengerRequest,
+  tripId: string,
+  pricePerSeat: number | null,
+) {
+  await reserveSeats(tx, tripId, request.seatsRequested, request);
+
+  const [newBooking] = await tx
+    .insert(schema.booking)
+    .values({
+      tripId,
+      passengerId: request.passengerId,
+      passengerRequestId: request.id,
+      pickupPlaceId: request.pickupPlaceId,
+      pickupName: request.pickupName,
+      pickupLat: request.pickupLat,
+      pickupLng: request.pickupLng,
+      dropoffPlaceId: request.dropoffPlaceId,
+      dropoffName: request.dropoffName,
+      dropoffLat: request.dropoffLat,
+      dropoffLng: request.dropoffLng,
+      seatsBooked: request.seatsRequested,
+      pricePerSeat,
+    })
+    .returning();
+
+  if (!newBooking) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to create booking",
+    });
+  }
+
+  const [acceptedRequest] = await tx
+    .update(schema.passengerRequest)
+    .set({ status: "accepted", tripId })
+    .where(eq(schema.passengerRequest.id, request.id))
+    .returning();
+
+  return { request: acceptedRequest ?? request, booking: newBooking };
+}
+
+/**
+ * Book seats for a passenger who didn't send a ride request: a waitlist
+ * offer or a driver's offer they accepted. The booking still gets an
+ * accepted request, so it shows on My Requests with its check-in code,
+ * cancellation and reschedule actions, and a conversation for the booking
+ * chat.
+ *
+ * Throws CONFLICT when the passenger already has an open request on the trip.
+ */
+export async function bookWithoutRequest(
+  tx: Transaction,
+  tripRecord: Pick<schema.Trip, "id" | "driverRouteId">,
+  values: Omit<
+    schema.NewPassengerRequest,
+    "driverRouteId" | "tripId" | "status"
+  >,
+  pricePerSeat: number | null,
+) {
+  const [newRequest] = await tx
+    .insert(schema.passengerRequest)
+    .values({
+      ...values,
+      driverRouteId: tripRecord.driverRouteId,
+      tripId: tripRecord.id,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!newRequest) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "You already have an open request on this ride",
+    });
+  }
+
+  const { request, booking } = await confirmRequest(
+    tx,
+    newRequest,
+    tripRecord.id,
+    pricePerSeat,
+  );
+
+  const [conversation] = await tx
+    .insert(schema.conversation)
+    .values({ bookingId: booking.id })
+    .returning();
+
+  return { request, booking, conversation: conversation ?? null };
+}
@@ -0,0 +1,23 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The last moment a passenger can cancel a booking without it counting
+ * against them. Routes configure the window via `freeCancellationHours`.
+ */
+export function freeCancellationDeadline(
+  departureTime: Date,
+  freeCancellationHours: number,
+) {
+  return new Date(departureTime.getTime() - freeCancellationHours * HOUR_MS);
+}
+
+/**
+ * Whether cancelling now falls inside the route's late cancellation window
+ */
+export function isLateCancellation(
+  departureTime: Date,
+  freeCancellationHours: number,
+  now = new Date(),
+) {
+  return now > freeCancellationDeadline(departureTime, freeCancellationHours);
+}
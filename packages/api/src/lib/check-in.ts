@@ -0,0 +1,124 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { Transaction } from "@app/db/client";
+import { and, eq } from "@app/db";
+import * as schema from "@app/db/schema";
+
+/** How long before departure the driver can start checking passengers in */
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+const CHECK_IN_PAYLOAD_PREFIX = "ridelist:check-in";
+
+/**
+ * What the passenger's check-in QR code encodes. Scanning it identifies the
+ * booking directly; the PIN alone is matched against the trip's bookings.
+ */
+export function checkInPayload(
+  bookingRecord: Pick<schema.Booking, "id" | "checkInCode">,
+) {
+  return `${CHECK_IN_PAYLOAD_PREFIX}:${bookingRecord.id}:${bookingRecord.checkInCode}`;
+}
+
+/**
+ * Read a typed PIN or a scanned QR payload; null when a payload is malformed
+ */
+function parseCheckIn(input: string) {
+  const value = input.trim();
+  if (!value.startsWith(`${CHECK_IN_PAYLOAD_PREFIX}:`)) {
+    return { bookingId: null, code: value };
+  }
+
+  const [bookingId, code] = value
+    .slice(CHECK_IN_PAYLOAD_PREFIX.length + 1)
+    .split(":");
+  if (!z.uuid().safeParse(bookingId).success || !code) return null;
+
+  return { bookingId, code };
+}
+
+/**
+ * Mark the passenger holding a check-in code as boarded. The caller must hold
+ * the trip lock.
+ *
+ * Check-in opens CHECK_IN_OPENS_MINUTES before departure and stays open until
+ * the trip is completed. Checking in a passenger twice is harmless; the first
+ * boarding time is kept. Throws NOT_FOUND when no confirmed booking on the
+ * trip matches the code.
+ */
+export async function checkInPassenger(
+  tx: Transaction,
+  lockedTrip: Pick<schema.Trip, "id" | "status" | "departureTime">,
+  input: string,
+) {
+  if (
+    lockedTrip.status !== "scheduled" &&
+    lockedTrip.status !== "in_progress"
+  ) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Passengers can only be checked in before the trip is over",
+    });
+  }
+
+  const opensAt = new Date(
+    lockedTrip.departureTime.getTime() - CHECK_IN_OPENS_MINUTES * 60_000,
+  );
+  if (new Date() < opensAt) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before departure`,
+    });
+  }
+
+  const checkIn = parseCheckIn(input);
+
+  const matches = checkIn
+    ? await tx.query.booking.findMany({
+        where: and(
+          eq(schema.booking.tripId, lockedTrip.id),
+          eq(schema.booking.status, "confirmed"),
+          eq(schema.booking.checkInCode, checkIn.code),
+          checkIn.bookingId
+            ? eq(schema.booking.id, checkIn.bookingId)
+            : undefined,
+        ),
+        with: {
+          passenger: true,
+        },
+      })
+    : [];
+
+  const [match] = matches;
+  if (!match) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "No booking on this trip matches that check-in code",
+    });
+  }
+
+  // Two passengers on one trip can draw the same PIN; their QR codes differ
+  if (matches.length > 1) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "More than one passenger has this PIN. Scan their QR code",
+    });
+  }
+
+  if (match.boardedAt) return match;
+
+  const [boarded] = await tx
+    .update(schema.booking)
+    .set({ boardedAt: new Date() })
+    .where(eq(schema.booking.id, match.id))
+    .returning();
+
+  if (!boarded) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to check in passenger",
+    });
+  }
+
+  return { ...boarded, passenger: match.passenger };
+}
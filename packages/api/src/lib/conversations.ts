@@ -0,0 +1,33 @@
+import type { Transaction } from "@app/db/client";
+import { eq } from "@app/db";
+import * as schema from "@app/db/schema";
+
+/**
+ * Post a system message in a booking's conversation, starting the
+ * conversation if there isn't one yet. The sender is the user whose action
+ * (or, for automatic steps, whose booking) the message is about, so it shows
+ * as unread for the other side.
+ */
+export async function postSystemMessage(
+  tx: Transaction,
+  bookingId: string,
+  senderId: string,
+  content: string,
+) {
+  await tx
+    .insert(schema.conversation)
+    .values({ bookingId })
+    .onConflictDoNothing({ target: schema.conversation.bookingId });
+
+  const conversation = await tx.query.conversation.findFirst({
+    where: eq(schema.conversation.bookingId, bookingId),
+  });
+  if (!conversation) return;
+
+  await tx.insert(schema.message).values({
+    conversationId: conversation.id,
+    senderId,
+    content,
+    isSystem: true,
+  });
+}
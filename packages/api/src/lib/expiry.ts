@@ -0,0 +1,163 @@
+import type { Database } from "@app/db/client";
+import { and, eq, inArray, lte, or } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { notify } from "./notifications";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * When a new request on a trip stops waiting for the driver: after the
+ * route's response window, and never later than departure.
+ */
+export function requestExpiresAt(
+  departureTime: Date,
+  requestResponseHours: number | null,
+  now = new Date(),
+) {
+  if (requestResponseHours === null) return departureTime;
+
+  return new Date(
+    Math.min(
+      now.getTime() + requestResponseHours * HOUR_MS,
+      departureTime.getTime(),
+    ),
+  );
+}
+
+/**
+ * Expire pending ride requests whose response deadline or trip departure has
+ * passed, and notify the passenger and the driver.
+ */
+export async function expireStaleRequests(db: Database) {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const departedTrips = tx
+      .select({ id: schema.trip.id })
+      .from(schema.trip)
+      .where(lte(schema.trip.departureTime, now));
+
+    const expired = await tx
+      .update(schema.passengerRequest)
+      .set({ status: "expired" })
+      .where(
+        and(
+          eq(schema.passengerRequest.status, "pending"),
+          or(
+            lte(schema.passengerRequest.expiresAt, now),
+            inArray(schema.passengerRequest.tripId, departedTrips),
+          ),
+        ),
+      )
+      .returning();
+
+    if (expired.length === 0) return 0;
+
+    const routes = await tx.query.driverRoute.findMany({
+      where: inArray(
+        schema.driverRoute.id,
+        expired.map((r) => r.driverRouteId),
+      ),
+    });
+    const routesById = new Map(routes.map((r) => [r.id, r]));
+
+    await notify(
+      tx,
+      expired.flatMap((request) => {
+        const route = routesById.get(request.driverRouteId);
+        if (!route) return [];
+
+        const ride = `${route.fromName} → ${route.toName}`;
+        const link = request.tripId ? `/ride/${request.tripId}` : null;
+
+        return [
+          {
+            userId: request.passengerId,
+            type: "request_expired" as const,
+            title: "Your ride request expired",
+            body: `The driver didn't respond to your request for ${ride} in time.`,
+            link: "/my-requests",
+          },
+          {
+            userId: route.driverId,
+            type: "request_expired" as const,
+            title: "A ride request expired",
+            body: `A request for ${ride} expired before you responded.`,
+            link,
+          },
+        ];
+      }),
+    );
+
+    return expired.length;
+  });
+}
+
+/**
+ * Expire pending driver offers whose response deadline or the passenger's
+ * departure time has passed, and notify the passenger and the driver.
+ */
+export async function expireStaleOffers(db: Database) {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const departedRoutes = tx
+      .select({ id: schema.passengerRoute.id })
+      .from(schema.passengerRoute)
+      .where(lte(schema.passengerRoute.departureTime, now));
+
+    const expired = await tx
+      .update(schema.driverOffer)
+      .set({ status: "expired" })
+      .where(
+        and(
+          eq(schema.driverOffer.status, "pending"),
+          or(
+            lte(schema.driverOffer.expiresAt, now),
+            inArray(schema.driverOffer.passengerRouteId, departedRoutes),
+          ),
+        ),
+      )
+      .returning();
+
+    if (expired.length === 0) return 0;
+
+    const passengerRoutes = await tx.query.passengerRoute.findMany({
+      where: inArray(
+        schema.passengerRoute.id,
+        expired.map((o) => o.passengerRouteId),
+      ),
+    });
+    const passengerRoutesById = new Map(passengerRoutes.map((r) => [r.id, r]));
+
+    await notify(
+      tx,
+      expired.flatMap((offer) => {
+        const passengerRoute = passengerRoutesById.get(offer.passengerRouteId);
+        if (!passengerRoute) return [];
+
+        const ride = `${passengerRoute.fromName} → ${passengerRoute.toName}`;
+
+        return [
+          {
+            userId: passengerRoute.passengerId,
+            type: "offer_expired" as const,
+            title: "A ride offer expired",
+            body: `A driver's offer for ${ride} expired before you responded.`,
+            link: null,
+          },
+          {
+            userId: offer.driverId,
+            type: "offer_expired" as const,
+            title: "Your ride offer expired",
+            body: `The passenger didn't respond to your offer for ${ride} in time.`,
+            link: null,
+          },
+        ];
+      }),
+    );
+
+    return expired.length;
+  });
+}
@@ -0,0 +1,79 @@
+import type { Database, Transaction } from "@app/db/client";
+import { and, avg, eq } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import type { LatLng } from "./route-geometry";
+import { estimateDetourKm } from "./route-geometry";
+
+type InstantBookRoute = Pick<
+  schema.DriverRoute,
+  | "routeGeometry"
+  | "instantBook"
+  | "instantBookMinRating"
+  | "instantBookRequireVerifiedPhone"
+  | "instantBookMaxDetourKm"
+>;
+
+/**
+ * Check a request against a route's instant-book rules.
+ *
+ * Returns the rules the passenger does not meet; an empty list means the
+ * request can be confirmed without the driver. Missing data (no reviews yet,
+ * no pickup coordinates) counts as not meeting the rule, so those requests
+ * fall back to manual approval.
+ */
+export async function getInstantBookBlockers(
+  db: Database | Transaction,
+  route: InstantBookRoute,
+  passengerId: string,
+  stops: { pickup: LatLng | null; dropoff: LatLng | null },
+) {
+  if (!route.instantBook) return ["Instant booking is off for this route"];
+
+  const blockers: string[] = [];
+
+  if (route.instantBookMinRating !== null) {
+    const [rating] = await db
+      .select({ averageRating: avg(schema.review.rating).mapWith(Number) })
+      .from(schema.review)
+      .where(
+        and(
+          eq(schema.review.revieweeId, passengerId),
+          eq(schema.review.isVisible, 1),
+        ),
+      );
+
+    const averageRating = rating?.averageRating ?? null;
+    if (averageRating === null || averageRating < route.instantBookMinRating) {
+      blockers.push(
+        `Passenger rating must be at least ${route.instantBookMinRating}`,
+      );
+    }
+  }
+
+  if (route.instantBookRequireVerifiedPhone) {
+    const passenger = await db.query.user.findFirst({
+      where: eq(schema.user.id, passengerId),
+      columns: { phoneNumberVerified: true },
+    });
+
+    if (!passenger?.phoneNumberVerified) {
+      blockers.push("Passenger must have a verified phone number");
+    }
+  }
+
+  if (route.instantBookMaxDetourKm !== null) {
+    const detourKm =
+      stops.pickup && stops.dropoff
+        ? estimateDetourKm(route.routeGeometry, stops.pickup, stops.dropoff)
+        : null;
+
+    if (detourKm === null || detourKm > route.instantBookMaxDetourKm) {
+      blockers.push(
+        `Detour must be at most ${route.instantBookMaxDetourKm} km`,
+      );
+    }
+  }
+
+  return blockers;
+}
@@ -0,0 +1,199 @@
+import type { TripSort } from "@app/validators";
+
+/** How much each part of a match counts towards its score */
+const SCORE_WEIGHTS = {
+  distance: 0.35,
+  time: 0.25,
+  price: 0.15,
+  rating: 0.15,
+  meetingPoints: 0.1,
+};
+
+/** Ratings are pulled towards this until a driver has a few reviews */
+const PRIOR_RATING = 4;
+const PRIOR_REVIEWS = 3;
+
+/** Minutes outside the requested time at which the time score halves */
+const TIME_HALF_SCORE_MINUTES = 60;
+
+interface RankableTrip {
+  departureTime: Date;
+  pricePerSeat: number | null;
+  pickupDistanceKm: number;
+  dropoffDistanceKm: number;
+  minutesFromRequestedTime: number | null;
+  driverRating: { averageRating: number | null; totalReviews: number };
+  pickupStop: { stop: { name: string } } | null;
+  dropoffStop: { stop: { name: string } } | null;
+}
+
+/**
+ * How well a trip suits the passenger, with the reasons in words
+ */
+export interface MatchQuality {
+  /** 0 to 100 */
+  score: number;
+  label: "Great match" | "Good match" | "Fair match";
+  /** What makes the trip a good fit, most telling first */
+  highlights: string[];
+  /** What the passenger gives up by taking it */
+  drawbacks: string[];
+}
+
+/**
+ * A driver's average rating weighed against how many reviews it rests on:
+ * drivers with few reviews sit close to PRIOR_RATING
+ */
+function weightedRating(rating: RankableTrip["driverRating"]) {
+  return (
+    ((rating.averageRating ?? 0) * rating.totalReviews +
+      PRIOR_RATING * PRIOR_REVIEWS) /
+    (rating.totalReviews + PRIOR_REVIEWS)
+  );
+}
+
+function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h`;
+  const days = Math.round(minutes / (24 * 60));
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+function matchQuality(
+  t: RankableTrip,
+  radiusKm: number,
+  priceRange: { min: number; max: number } | null,
+): MatchQuality {
+  const highlights: string[] = [];
+  const drawbacks: string[] = [];
+
+  // Distance: how far the passenger goes to meet the route at both ends
+  const distance =
+    1 -
+    Math.min(1, (t.pickupDistanceKm + t.dropoffDistanceKm) / (2 * radiusKm));
+  if (t.pickupStop) {
+    highlights.push(`Meeting point at ${t.pickupStop.stop.name}`);
+  } else if (t.pickupDistanceKm > radiusKm / 2) {
+    drawbacks.push(`Pickup ${t.pickupDistanceKm} km from you`);
+  }
+  if (t.dropoffStop) {
+    highlights.push(`Drop-off at ${t.dropoffStop.stop.name}`);
+  } else if (t.dropoffDistanceKm > radiusKm / 2) {
+    drawbacks.push(`Drop-off ${t.dropoffDistanceKm} km from your destination`);
+  }
+  if (
+    !t.pickupStop &&
+    !t.dropoffStop &&
+    t.pickupDistanceKm <= 2 &&
+    t.dropoffDistanceKm <= 2
+  ) {
+    highlights.push("Passes close to your pickup and destination");
+  }
+
+  // Time: only when a departure window was asked for
+  const time =
+    t.minutesFromRequestedTime === null
+      ? 1
+      : 1 / (1 + t.minutesFromRequestedTime / TIME_HALF_SCORE_MINUTES);
+  if (t.minutesFromRequestedTime === 0) {
+    highlights.push("Leaves in your time window");
+  } else if (t.minutesFromRequestedTime !== null) {
+    drawbacks.push(
+      `Leaves ${formatMinutes(t.minutesFromRequestedTime)} outside your requested time`,
+    );
+  }
+
+  // Price: relative to the other results; unpriced trips sit in the middle
+  let price = 0.5;
+  if (t.pricePerSeat !== null && priceRange) {
+    price =
+      priceRange.max === priceRange.min
+        ? 1
+        : (priceRange.max - t.pricePerSeat) / (priceRange.max - priceRange.min);
+    if (t.pricePerSeat === priceRange.min && priceRange.max > priceRange.min) {
+      highlights.push("Cheapest option");
+    }
+  }
+
+  // Rating: weighed by review count, so one 5-star review isn't top-rated
+  const rating = (weightedRating(t.driverRating) - 1) / 4;
+  const { averageRating, totalReviews } = t.driverRating;
+  if (averageRating !== null && averageRating >= 4.5 && totalReviews >= 3) {
+    highlights.push(
+      `Top-rated driver (${averageRating.toFixed(1)}★, ${totalReviews} reviews)`,
+    );
+  } else if (averageRating !== null && averageRating < 3.5) {
+    drawbacks.push(`Driver rated ${averageRating.toFixed(1)}★`);
+  }
+
+  const meetingPoints =
+    (Number(t.pickupStop !== null) + Number(t.dropoffStop !== null)) / 2;
+
+  const score = Math.round(
+    100 *
+      (SCORE_WEIGHTS.distance * distance +
+        SCORE_WEIGHTS.time * time +
+        SCORE_WEIGHTS.price * price +
+        SCORE_WEIGHTS.rating * rating +
+        SCORE_WEIGHTS.meetingPoints * meetingPoints),
+  );
+
+  return {
+    score,
+    label:
+      score >= 80 ? "Great match" : score >= 60 ? "Good match" : "Fair match",
+    highlights,
+    drawbacks,
+  };
+}
+
+/**
+ * Score matched trips and put them in the passenger's chosen order.
+ *
+ * The best-match score combines how close the route passes to the pickup and
+ * dropoff, how far the departure is from the requested time, the price
+ * against the other results, the driver's rating and review count, and
+ * whether route stops serve as meeting points. Every sort falls back to it
+ * for ties.
+ */
+export function rankTrips<T extends RankableTrip>(
+  trips: T[],
+  options: { radiusKm: number; sort: TripSort },
+) {
+  const prices = trips.flatMap((t) => t.pricePerSeat ?? []);
+  const priceRange =
+    prices.length > 0
+      ? { min: Math.min(...prices), max: Math.max(...prices) }
+      : null;
+
+  const ranked = trips.map((t) => ({
+    ...t,
+    matchQuality: matchQuality(t, options.radiusKm, priceRange),
+  }));
+
+  const byScore = (a: (typeof ranked)[number], b: (typeof ranked)[number]) =>
+    b.matchQuality.score - a.matchQuality.score ||
+    a.departureTime.getTime() - b.departureTime.getTime();
+
+  return ranked.sort((a, b) => {
+    switch (options.sort) {
+      case "earliest":
+        return (
+          a.departureTime.getTime() - b.departureTime.getTime() || byScore(a, b)
+        );
+      case "cheapest":
+        // Unpriced trips last
+        return (
+          (a.pricePerSeat ?? Infinity) - (b.pricePerSeat ?? Infinity) ||
+          byScore(a, b)
+        );
+      case "topRated":
+        return (
+          weightedRating(b.driverRating) - weightedRating(a.driverRating) ||
+          byScore(a, b)
+        );
+      case "bestMatch":
+        return byScore(a, b);
+    }
+  });
+}
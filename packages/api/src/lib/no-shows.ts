@@ -0,0 +1,364 @@
+import { TRPCError } from "@trpc/server";
+
+import type { Database, Transaction } from "@app/db/client";
+import type { BookingStatus } from "@app/db/schema";
+import { and, eq, inArray, isNull, lte, notExists, or } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import type { TransitionContext } from "./trip-lifecycle";
+import { notify } from "./notifications";
+import { OPEN_NO_SHOW_STATUSES, transitionBooking } from "./trip-lifecycle";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long after departure either side can report a no-show */
+export const NO_SHOW_REPORT_WINDOW_HOURS = 48;
+
+/** How long the reported user has to contest before a report is upheld */
+export const NO_SHOW_CONTEST_HOURS = 48;
+
+/** How long a driver has to confirm a no-show filed for an unboarded passenger */
+export const NO_SHOW_CONFIRM_HOURS = 48;
+
+/** How long a contested report can stay open before it is dismissed */
+export const NO_SHOW_RESOLUTION_DAYS = 7;
+
+/**
+ * When a report contested now is dismissed if nobody settles it first.
+ */
+export function noShowResolveBy(contestedAt: Date) {
+  return new Date(
+    contestedAt.getTime() + NO_SHOW_RESOLUTION_DAYS * 24 * HOUR_MS,
+  );
+}
+
+/**
+ * The last moment a no-show can be reported for a trip.
+ */
+export function noShowReportableUntil(departureTime: Date) {
+  return new Date(
+    departureTime.getTime() + NO_SHOW_REPORT_WINDOW_HOURS * HOUR_MS,
+  );
+}
+
+/**
+ * Lock a no-show report so it is settled only once.
+ */
+export async function lockNoShowReport(tx: Transaction, reportId: string) {
+  const [report] = await tx
+    .select()
+    .from(schema.noShowReport)
+    .where(eq(schema.noShowReport.id, reportId))
+    .for("update");
+
+  if (!report) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "No-show report not found",
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Settle an open no-show report.
+ *
+ * - upheld: the booking is marked as a driver or passenger no-show
+ * - dismissed: a booking the report held open follows its trip (completed or
+ *   cancelled by the driver)
+ *
+ * Both parties are notified. Throws PRECONDITION_FAILED when the report is
+ * already settled.
+ */
+export async function resolveNoShowReport(
+  tx: Transaction,
+  report: schema.NoShowReport,
+  outcome: "upheld" | "dismissed",
+  context: TransitionContext,
+) {
+  if (!OPEN_NO_SHOW_STATUSES.includes(report.status)) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `This report has already been ${report.status}`,
+    });
+  }
+
+  const [resolved] = await tx
+    .update(schema.noShowReport)
+    .set({ status: outcome, resolvedAt: new Date() })
+    .where(eq(schema.noShowReport.id, report.id))
+    .returning();
+
+  if (!resolved) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update no-show report",
+    });
+  }
+
+  const bookingRecord = await tx.query.booking.findFirst({
+    where: eq(schema.booking.id, report.bookingId),
+    with: {
+      trip: {
+        with: {
+          driverRoute: true,
+        },
+      },
+    },
+  });
+
+  if (!bookingRecord) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Booking not found",
+    });
+  }
+
+  const tripStatus = bookingRecord.trip.status;
+  const toStatus: BookingStatus | null =
+    outcome === "upheld"
+      ? report.type === "driver_no_show"
+        ? "no_show_driver"
+        : "no_show_passenger"
+      : bookingRecord.status !== "confirmed"
+        ? null
+        : tripStatus === "completed"
+          ? "completed"
+          : tripStatus === "cancelled"
+            ? "cancelled_by_driver"
+            : null;
+
+  if (toStatus) {
+    await transitionBooking(tx, bookingRecord.id, toStatus, context);
+  }
+
+  const ride = `${bookingRecord.trip.driverRoute.fromName} → ${bookingRecord.trip.driverRoute.toName}`;
+  const who = report.type === "driver_no_show" ? "driver" : "passenger";
+  const body =
+    outcome === "upheld"
+      ? `The ${who} no-show on ${ride} is now final.`
+      : `The ${who} no-show report on ${ride} was withdrawn.`;
+
+  await notify(
+    tx,
+    [report.reporterId, report.reportedUserId].map((userId) => ({
+      userId,
+      type: "no_show_resolved" as const,
+      title:
+        outcome === "upheld"
+          ? "A no-show report was upheld"
+          : "A no-show report was dismissed",
+      body,
+      link: `/ride/${report.tripId}`,
+    })),
+  );
+
+  return resolved;
+}
+
+/**
+ * Confirm a no-show the system filed on the reporter's behalf, opening it to
+ * contest like a report they filed themselves.
+ *
+ * Throws PRECONDITION_FAILED when the report isn't awaiting confirmation or
+ * its confirmation window has closed.
+ */
+export async function confirmNoShowReport(
+  tx: Transaction,
+  report: schema.NoShowReport,
+) {
+  if (report.status !== "unconfirmed" || report.contestDeadline <= new Date()) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "This report can no longer be confirmed",
+    });
+  }
+
+  const [confirmed] = await tx
+    .update(schema.noShowReport)
+    .set({
+      status: "pending",
+      contestDeadline: new Date(Date.now() + NO_SHOW_CONTEST_HOURS * HOUR_MS),
+    })
+    .where(eq(schema.noShowReport.id, report.id))
+    .returning();
+
+  if (!confirmed) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update no-show report",
+    });
+  }
+
+  await notify(tx, [
+    {
+      userId: confirmed.reportedUserId,
+      type: "no_show_reported",
+      title: "The driver reported you as a no-show",
+      body: `The driver confirmed you didn't ride. You have ${NO_SHOW_CONTEST_HOURS} hours to contest it.`,
+      link: "/my-requests",
+    },
+  ]);
+
+  return confirmed;
+}
+
+const EXPIRY_REASONS = {
+  unconfirmed: "No-show wasn't confirmed by the driver in time",
+  pending: "No-show report wasn't contested in time",
+  contested: "Contested no-show wasn't settled in time",
+} as const;
+
+/**
+ * Settle no-show reports whose deadline has passed: pending reports nobody
+ * contested are upheld, while reports the system filed that the reporter
+ * never confirmed, and contested reports still open at their resolveBy, are
+ * dismissed. A no-show only counts on one side's word if the other side
+ * doesn't dispute it.
+ */
+export async function finalizeExpiredNoShowReports(db: Database) {
+  const now = new Date();
+  const expired = await db.query.noShowReport.findMany({
+    where: or(
+      and(
+        inArray(schema.noShowReport.status, ["unconfirmed", "pending"]),
+        lte(schema.noShowReport.contestDeadline, now),
+      ),
+      and(
+        eq(schema.noShowReport.status, "contested"),
+        lte(schema.noShowReport.resolveBy, now),
+      ),
+    ),
+  });
+
+  let settled = 0;
+  for (const report of expired) {
+    try {
+      await db.transaction(async (tx) => {
+        const locked = await lockNoShowReport(tx, report.id);
+        // Moved on or settled since it was read
+        if (
+          locked.status !== report.status ||
+          (locked.status !== "unconfirmed" &&
+            locked.status !== "pending" &&
+            locked.status !== "contested")
+        ) {
+          return;
+        }
+
+        await resolveNoShowReport(
+          tx,
+          locked,
+          locked.status === "pending" ? "upheld" : "dismissed",
+          {
+            actorId: null,
+            reason: EXPIRY_REASONS[locked.status],
+          },
+        );
+        settled++;
+      });
+    } catch (error) {
+      console.error(`[JOB] Failed to finalize no-show ${report.id}`, error);
+    }
+  }
+
+  return settled;
+}
+
+/**
+ * File passenger no-show reports for bookings on completed trips whose
+ * passengers were never checked in. The reports are unconfirmed: nothing
+ * counts against the passenger unless the driver confirms the no-show within
+ * NO_SHOW_CONFIRM_HOURS, after which the passenger can contest it like any
+ * other report. Unconfirmed reports are dismissed once that window closes.
+ */
+export async function reportUnboardedPassengers(db: Database) {
+  const unboarded = await db
+    .select({ id: schema.booking.id })
+    .from(schema.booking)
+    .innerJoin(schema.trip, eq(schema.booking.tripId, schema.trip.id))
+    .where(
+      and(
+        eq(schema.trip.status, "completed"),
+        eq(schema.booking.status, "confirmed"),
+        isNull(schema.booking.boardedAt),
+        notExists(
+          db
+            .select({ id: schema.noShowReport.id })
+            .from(schema.noShowReport)
+            .where(eq(schema.noShowReport.bookingId, schema.booking.id)),
+        ),
+      ),
+    );
+
+  let reported = 0;
+  for (const { id } of unboarded) {
+    try {
+      await db.transaction(async (tx) => {
+        const [bookingRecord] = await tx
+          .select()
+          .from(schema.booking)
+          .where(eq(schema.booking.id, id))
+          .for("update");
+
+        // Checked in or settled since it was read
+        if (
+          bookingRecord?.status !== "confirmed" ||
+          bookingRecord.boardedAt !== null
+        ) {
+          return;
+        }
+
+        const tripRecord = await tx.query.trip.findFirst({
+          where: eq(schema.trip.id, bookingRecord.tripId),
+          with: {
+            driverRoute: true,
+          },
+        });
+        if (!tripRecord) return;
+
+        const [report] = await tx
+          .insert(schema.noShowReport)
+          .values({
+            bookingId: bookingRecord.id,
+            tripId: tripRecord.id,
+            type: "passenger_no_show",
+            status: "unconfirmed",
+            reporterId: tripRecord.driverId,
+            reportedUserId: bookingRecord.passengerId,
+            details: "The passenger wasn't checked in before the trip ended",
+            contestDeadline: new Date(
+              Date.now() + NO_SHOW_CONFIRM_HOURS * HOUR_MS,
+            ),
+          })
+          .onConflictDoNothing({ target: schema.noShowReport.bookingId })
+          .returning();
+        if (!report) return;
+
+        const ride = `${tripRecord.driverRoute.fromName} → ${tripRecord.driverRoute.toName}`;
+        await notify(tx, [
+          {
+            userId: bookingRecord.passengerId,
+            type: "no_show_reported",
+            title: "You weren't checked in for your ride",
+            body: `You weren't checked in on ${ride}. The driver is asked whether you rode; nothing counts against you unless they confirm a no-show.`,
+            link: "/my-requests",
+          },
+          {
+            userId: tripRecord.driverId,
+            type: "no_show_reported",
+            title: "A passenger wasn't checked in",
+            body: `A passenger on ${ride} wasn't checked in. Confirm the no-show within ${NO_SHOW_CONFIRM_HOURS} hours, or it's dropped.`,
+            link: `/ride/${tripRecord.id}`,
+          },
+        ]);
+        reported++;
+      });
+    } catch (error) {
+      console.error(`[JOB] Failed to report no-show for booking ${id}`, error);
+    }
+  }
+
+  return reported;
+}
@@ -0,0 +1,14 @@
+import type { Database, Transaction } from "@app/db/client";
+import * as schema from "@app/db/schema";
+
+/**
+ * Create in-app notifications. Pass the transaction that made the change so
+ * notifications are only sent if it commits.
+ */
+export async function notify(
+  db: Database | Transaction,
+  notifications: schema.NewNotification[],
+) {
+  if (notifications.length === 0) return;
+  await db.insert(schema.notification).values(notifications);
+}
@@ -0,0 +1,137 @@
+import type { Transaction } from "@app/db/client";
+import * as schema from "@app/db/schema";
+
+import type { LatLng } from "./route-geometry";
+import { notify } from "./notifications";
+import { formatDeparture } from "./reschedule";
+import { findMatchingTrips } from "./trip-matching";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Alternatives may leave this long before or after the cancelled trip */
+export const REBOOKING_WINDOW_HOURS = 3;
+
+/** How far from an alternative's route the passenger's stops can be */
+export const REBOOKING_RADIUS_KM = 10;
+
+/** Alternatives saved per cancelled booking */
+export const MAX_REBOOKING_SUGGESTIONS = 5;
+
+type CancelledRoute = Pick<
+  schema.DriverRoute,
+  "fromName" | "toName" | "fromLat" | "fromLng" | "toLat" | "toLng" | "timezone"
+>;
+
+/**
+ * Where a booking picks up and drops off; bookings for the whole route use
+ * the route's ends.
+ */
+export function bookingLeg(
+  bookingRecord: Pick<
+    schema.Booking,
+    "pickupLat" | "pickupLng" | "dropoffLat" | "dropoffLng"
+  >,
+  route: Pick<schema.DriverRoute, "fromLat" | "fromLng" | "toLat" | "toLng">,
+): { pickup: LatLng; dropoff: LatLng } {
+  return {
+    pickup:
+      bookingRecord.pickupLat !== null && bookingRecord.pickupLng !== null
+        ? { lat: bookingRecord.pickupLat, lng: bookingRecord.pickupLng }
+        : { lat: route.fromLat, lng: route.fromLng },
+    dropoff:
+      bookingRecord.dropoffLat !== null && bookingRecord.dropoffLng !== null
+        ? { lat: bookingRecord.dropoffLat, lng: bookingRecord.dropoffLng }
+        : { lat: route.toLat, lng: route.toLng },
+  };
+}
+
+/**
+ * Save alternative trips for bookings a driver cancelled, and tell each
+ * passenger their ride was cancelled with a link to the alternatives.
+ *
+ * Alternatives are upcoming trips by other drivers passing near the booking's
+ * pickup and dropoff, leaving within REBOOKING_WINDOW_HOURS of the cancelled
+ * departure, with enough seats free on the passenger's stretch.
+ */
+export async function suggestRebookings(
+  tx: Transaction,
+  cancelledTrip: Pick<schema.Trip, "id" | "departureTime" | "driverId">,
+  route: CancelledRoute,
+  bookings: schema.Booking[],
+  reason: string | null | undefined,
+) {
+  if (bookings.length === 0) return;
+
+  const now = new Date();
+  const departAfter = new Date(
+    Math.max(
+      now.getTime(),
+      cancelledTrip.departureTime.getTime() - REBOOKING_WINDOW_HOURS * HOUR_MS,
+    ),
+  );
+  const departBefore = new Date(
+    cancelledTrip.departureTime.getTime() + REBOOKING_WINDOW_HOURS * HOUR_MS,
+  );
+
+  const suggestionCounts = new Map<string, number>();
+
+  for (const cancelledBooking of bookings) {
+    const matches = await findMatchingTrips(tx, {
+      ...bookingLeg(cancelledBooking, route),
+      radiusKm: REBOOKING_RADIUS_KM,
+      departAfter,
+      departBefore,
+      limit: 50,
+    });
+
+    const alternatives = matches
+      .filter(
+        (m) =>
+          m.id !== cancelledTrip.id &&
+          m.driverId !== cancelledTrip.driverId &&
+          m.driverId !== cancelledBooking.passengerId &&
+          m.seatsAvailable >= cancelledBooking.seatsBooked,
+      )
+      .slice(0, MAX_REBOOKING_SUGGESTIONS);
+
+    suggestionCounts.set(cancelledBooking.id, alternatives.length);
+    if (alternatives.length === 0) continue;
+
+    await tx
+      .insert(schema.rebookingSuggestion)
+      .values(
+        alternatives.map((m, rank) => ({
+          bookingId: cancelledBooking.id,
+          tripId: m.id,
+          rank,
+          pickupDistanceKm: m.pickupDistanceKm,
+          dropoffDistanceKm: m.dropoffDistanceKm,
+        })),
+      )
+      .onConflictDoNothing();
+  }
+
+  const ride = `${route.fromName} → ${route.toName} (${formatDeparture(cancelledTrip.departureTime, route.timezone)})`;
+
+  await notify(
+    tx,
+    bookings.map((b) => {
+      const count = suggestionCounts.get(b.id) ?? 0;
+      return {
+        userId: b.passengerId,
+        type: "trip_cancelled" as const,
+        title: "Your ride was cancelled",
+        body: [
+          `The driver cancelled ${ride}.`,
+          reason ? `Reason: ${reason}` : null,
+          count > 0
+            ? `We found ${count} other ride${count === 1 ? "" : "s"} around the same time.`
+            : null,
+        ]
+          .filter(Boolean)
+          .join(" "),
+        link: `/my-requests/rebook/${b.id}`,
+      };
+    }),
+  );
+}
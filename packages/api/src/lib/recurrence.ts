@@ -0,0 +1,259 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval: number;
+  byDay: Weekday[] | null;
+  byMonthDay: number[] | null;
+  count: number | null;
+  until: Date | null;
+}
+
+export interface Occurrence {
+  /** Local calendar date of the occurrence, "YYYY-MM-DD" */
+  date: string;
+  departureTime: Date;
+}
+
+/**
+ * Parse the subset of RFC 5545 RRULE used for commuter routes:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+ * Throws on anything else so bad rules are caught when they are saved.
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || !value) throw new Error(`Invalid RRULE part "${part}"`);
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("RRULE FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: 1,
+    byDay: null,
+    byMonthDay: null,
+    count: null,
+    until: null,
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+      case "COUNT": {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) {
+          throw new Error(`RRULE ${key} must be a positive integer`);
+        }
+        if (key === "INTERVAL") rule.interval = n;
+        else rule.count = n;
+        break;
+      }
+      case "BYDAY": {
+        const days = value.split(",");
+        if (!days.every((d): d is Weekday => WEEKDAYS.includes(d as Weekday))) {
+          throw new Error("RRULE BYDAY must list days like MO,TU,WE");
+        }
+        rule.byDay = days;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const days = value.split(",").map(Number);
+        if (!days.every((d) => Number.isInteger(d) && d >= 1 && d <= 31)) {
+          throw new Error("RRULE BYMONTHDAY must list days between 1 and 31");
+        }
+        rule.byMonthDay = days;
+        break;
+      }
+      case "UNTIL": {
+        const match =
+          /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+        if (!match) throw new Error("RRULE UNTIL must look like 20250131");
+        // A date without a time runs to the end of that day
+        const [y = 0, mo = 1, d = 1] = match.slice(1, 4).map(Number);
+        const [h = 23, mi = 59, sec = 59] = match[4]
+          ? match.slice(4, 7).map(Number)
+          : [];
+        rule.until = new Date(Date.UTC(y, mo - 1, d, h, mi, sec));
+        break;
+      }
+      default:
+        throw new Error(`RRULE ${key} is not supported`);
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds.
+ */
+function timeZoneOffset(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time on a local calendar date happens in a zone.
+ * `day` is midnight UTC of the calendar date.
+ */
+export function zonedTime(day: Date, time: string, timeZone: string) {
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(":").map(Number);
+  const wallClock =
+    day.getTime() + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+
+  // Correct twice so times next to a DST change land on the right offset
+  let instant = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - timeZoneOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Midnight UTC of the calendar date an instant falls on in a zone.
+ */
+function localDay(instant: Date, timeZone: string) {
+  const local = new Date(instant.getTime() + timeZoneOffset(instant, timeZone));
+  return new Date(
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()),
+  );
+}
+
+/**
+ * Wall-clock time of an instant in a zone, "HH:MM:SS".
+ */
+export function localTime(instant: Date, timeZone: string) {
+  const local = new Date(instant.getTime() + timeZoneOffset(instant, timeZone));
+  return local.toISOString().slice(11, 19);
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesRule(rule: RecurrenceRule, start: Date, day: Date) {
+  const weekday = WEEKDAYS[day.getUTCDay()] ?? "SU";
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const days = Math.round((day.getTime() - start.getTime()) / DAY_MS);
+      if (days % rule.interval !== 0) return false;
+      return !rule.byDay || rule.byDay.includes(weekday);
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (the RRULE default WKST)
+      const weekStart = (d: Date) =>
+        d.getTime() - ((d.getUTCDay() + 6) % 7) * DAY_MS;
+      const weeks = Math.round(
+        (weekStart(day) - weekStart(start)) / (7 * DAY_MS),
+      );
+      if (weeks % rule.interval !== 0) return false;
+      return (rule.byDay ?? [WEEKDAYS[start.getUTCDay()] ?? "SU"]).includes(
+        weekday,
+      );
+    }
+    case "MONTHLY": {
+      const months =
+        (day.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        day.getUTCMonth() -
+        start.getUTCMonth();
+      if (months % rule.interval !== 0) return false;
+      if (rule.byMonthDay) return rule.byMonthDay.includes(day.getUTCDate());
+      if (rule.byDay) return rule.byDay.includes(weekday);
+      return day.getUTCDate() === start.getUTCDate();
+    }
+  }
+}
+
+/**
+ * Expand a route's recurrence into departures between `from` and `to`.
+ *
+ * The rule is counted from `validFrom`, so COUNT limits the whole series and
+ * not just the window. Occurrences are dated in the route's time zone and
+ * leave at `baseTime` local time.
+ */
+export function expandRecurrence(
+  recurrence: {
+    rrule: string;
+    baseTime: string;
+    validFrom: Date;
+    validUntil: Date | null;
+    timezone: string;
+  },
+  from: Date,
+  to: Date,
+): Occurrence[] {
+  const rule = parseRRule(recurrence.rrule);
+  const start = localDay(recurrence.validFrom, recurrence.timezone);
+
+  const ends = [to, recurrence.validUntil, rule.until].filter(
+    (d): d is Date => d !== null,
+  );
+  const end = new Date(Math.min(...ends.map((d) => d.getTime())));
+
+  const occurrences: Occurrence[] = [];
+  let seen = 0;
+
+  for (
+    let day = start;
+    day.getTime() <= end.getTime();
+    day = new Date(day.getTime() + DAY_MS)
+  ) {
+    if (!matchesRule(rule, start, day)) continue;
+
+    const departureTime = zonedTime(
+      day,
+      recurrence.baseTime,
+      recurrence.timezone,
+    );
+    if (departureTime < recurrence.validFrom) continue;
+    if (departureTime > end) break;
+
+    seen++;
+    if (rule.count !== null && seen > rule.count) break;
+
+    if (departureTime >= from) {
+      occurrences.push({
+        date: day.toISOString().slice(0, 10),
+        departureTime,
+      });
+    }
+  }
+
+  return occurrences;
+}
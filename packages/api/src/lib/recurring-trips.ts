@@ -0,0 +1,392 @@
+import { TRPCError } from "@trpc/server";
+
+import type { Database, Transaction } from "@app/db/client";
+import {
+  and,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  notExists,
+  or,
+} from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { notify } from "./notifications";
+import { suggestRebookings } from "./rebooking";
+import {
+  expandRecurrence,
+  isValidTimeZone,
+  parseRRule,
+  zonedTime,
+} from "./recurrence";
+import { rescheduleTrip } from "./reschedule";
+import { getSeatsTaken, lockTrip } from "./seats";
+import { transitionTrip } from "./trip-lifecycle";
+import { promoteWaitlist } from "./waitlist";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far ahead occurrences of recurring routes exist as trips */
+export const RECURRENCE_HORIZON_DAYS = 60;
+
+type RecurringRoute = Pick<
+  typeof schema.driverRoute.$inferSelect,
+  | "id"
+  | "driverId"
+  | "rrule"
+  | "baseTime"
+  | "validFrom"
+  | "validUntil"
+  | "timezone"
+  | "createdAt"
+>;
+
+/**
+ * Check a route's recurrence settings before they are saved.
+ */
+export function assertValidRecurrence(recurrence: {
+  rrule: string;
+  baseTime: string | null;
+  timezone: string;
+}) {
+  try {
+    parseRRule(recurrence.rrule);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "Invalid RRULE",
+    });
+  }
+
+  if (
+    !recurrence.baseTime ||
+    !/^\d{2}:\d{2}(:\d{2})?$/.test(recurrence.baseTime)
+  ) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Recurring routes need a departure time of day (HH:MM)",
+    });
+  }
+
+  if (!isValidTimeZone(recurrence.timezone)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Unknown time zone "${recurrence.timezone}"`,
+    });
+  }
+}
+
+/**
+ * Create the trips for a recurring route's occurrences over the rolling
+ * horizon. Occurrences that already have a trip are skipped, so this is safe
+ * to run repeatedly. Skipped dates are left out and per-occurrence overrides
+ * applied. Returns the trips created.
+ */
+export async function materializeRouteTrips(
+  db: Database | Transaction,
+  route: RecurringRoute,
+  now = new Date(),
+) {
+  if (!route.rrule || !route.baseTime) return [];
+
+  const occurrences = expandRecurrence(
+    {
+      rrule: route.rrule,
+      baseTime: route.baseTime,
+      validFrom: route.validFrom ?? route.createdAt,
+      validUntil: route.validUntil,
+      timezone: route.timezone,
+    },
+    now,
+    new Date(now.getTime() + RECURRENCE_HORIZON_DAYS * DAY_MS),
+  );
+  if (occurrences.length === 0) return [];
+
+  const [exceptions, overrides] = await Promise.all([
+    db.query.driverRouteException.findMany({
+      where: eq(schema.driverRouteException.driverRouteId, route.id),
+    }),
+    db.query.driverRouteOverride.findMany({
+      where: eq(schema.driverRouteOverride.driverRouteId, route.id),
+    }),
+  ]);
+  const overridesByDate = new Map(overrides.map((o) => [o.occurrenceDate, o]));
+
+  // Dates are "YYYY-MM-DD", so they compare correctly as strings
+  const trips = occurrences
+    .filter(
+      (occurrence) =>
+        !exceptions.some(
+          (e) => e.startDate <= occurrence.date && occurrence.date <= e.endDate,
+        ),
+    )
+    .map((occurrence) => {
+      const override = overridesByDate.get(occurrence.date);
+      return {
+        driverRouteId: route.id,
+        driverId: route.driverId,
+        departureTime: override?.baseTime
+          ? zonedTime(
+              new Date(`${occurrence.date}T00:00:00Z`),
+              override.baseTime,
+              route.timezone,
+            )
+          : occurrence.departureTime,
+        occurrenceDate: occurrence.date,
+        seatsOffered: override?.seatsOffered ?? null,
+        pricePerSeat: override?.pricePerSeat ?? null,
+      };
+    })
+    .filter((t) => t.departureTime >= now);
+  if (trips.length === 0) return [];
+
+  return db
+    .insert(schema.trip)
+    .values(trips)
+    .onConflictDoNothing({
+      target: [schema.trip.driverRouteId, schema.trip.occurrenceDate],
+    })
+    .returning();
+}
+
+/**
+ * Rebuild a route's future occurrences after its recurrence changed.
+ *
+ * Generated trips nobody has booked, requested or waitlisted are removed and
+ * the new rule is materialized. Trips passengers are involved with are kept
+ * as they are.
+ */
+export async function regenerateRouteTrips(
+  tx: Transaction,
+  route: RecurringRoute,
+  now = new Date(),
+) {
+  await tx
+    .delete(schema.trip)
+    .where(
+      and(
+        eq(schema.trip.driverRouteId, route.id),
+        isNotNull(schema.trip.occurrenceDate),
+        eq(schema.trip.status, "scheduled"),
+        gt(schema.trip.departureTime, now),
+        notExists(
+          tx
+            .select({ id: schema.booking.id })
+            .from(schema.booking)
+            .where(eq(schema.booking.tripId, schema.trip.id)),
+        ),
+        notExists(
+          tx
+            .select({ id: schema.passengerRequest.id })
+            .from(schema.passengerRequest)
+            .where(eq(schema.passengerRequest.tripId, schema.trip.id)),
+        ),
+        notExists(
+          tx
+            .select({ id: schema.waitlistEntry.id })
+            .from(schema.waitlistEntry)
+            .where(eq(schema.waitlistEntry.tripId, schema.trip.id)),
+        ),
+      ),
+    );
+
+  return materializeRouteTrips(tx, route, now);
+}
+
+/**
+ * Extend every recurring route's trips to the end of the rolling horizon.
+ */
+export async function materializeRecurringTrips(db: Database) {
+  const now = new Date();
+
+  const routes = await db.query.driverRoute.findMany({
+    where: and(
+      isNotNull(schema.driverRoute.rrule),
+      or(
+        isNull(schema.driverRoute.validUntil),
+        gt(schema.driverRoute.validUntil, now),
+      ),
+    ),
+  });
+
+  let created = 0;
+  for (const route of routes) {
+    try {
+      const trips = await materializeRouteTrips(db, route, now);
+      created += trips.length;
+    } catch (error) {
+      console.error(`[JOB] Failed to materialize route ${route.id}`, error);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Whether a local date is one of the route's occurrences under its rule
+ * (ignoring skipped dates).
+ */
+export function isOccurrenceDate(route: RecurringRoute, date: string) {
+  if (!route.rrule || !route.baseTime) return false;
+
+  const day = new Date(`${date}T00:00:00Z`);
+  return expandRecurrence(
+    {
+      rrule: route.rrule,
+      baseTime: route.baseTime,
+      validFrom: route.validFrom ?? route.createdAt,
+      validUntil: route.validUntil,
+      timezone: route.timezone,
+    },
+    new Date(day.getTime() - DAY_MS),
+    new Date(day.getTime() + 2 * DAY_MS),
+  ).some((occurrence) => occurrence.date === date);
+}
+
+/**
+ * Cancel the scheduled occurrences of a route between two local dates
+ * (inclusive). Confirmed bookings are cancelled by the driver and offered
+ * alternatives (see `suggestRebookings`), pending requests rejected, and the
+ * affected passengers notified. Other occurrences are left alone.
+ */
+export async function cancelOccurrences(
+  tx: Transaction,
+  route: schema.DriverRoute,
+  startDate: string,
+  endDate: string,
+) {
+  const scheduledTrips = await tx.query.trip.findMany({
+    where: and(
+      eq(schema.trip.driverRouteId, route.id),
+      eq(schema.trip.status, "scheduled"),
+      gte(schema.trip.occurrenceDate, startDate),
+      lte(schema.trip.occurrenceDate, endDate),
+    ),
+  });
+
+  const reason = "Occurrence skipped by the driver";
+  const cancelledTrips: schema.Trip[] = [];
+  for (const scheduledTrip of scheduledTrips) {
+    const cancelled = await transitionTrip(tx, scheduledTrip.id, "cancelled", {
+      actorId: route.driverId,
+      reason,
+    });
+    cancelledTrips.push(cancelled.trip);
+    await suggestRebookings(
+      tx,
+      cancelled.trip,
+      route,
+      cancelled.bookings,
+      reason,
+    );
+  }
+
+  if (cancelledTrips.length === 0) return cancelledTrips;
+  const tripIds = cancelledTrips.map((t) => t.id);
+
+  const rejectedRequests = await tx
+    .update(schema.passengerRequest)
+    .set({ status: "rejected" })
+    .where(
+      and(
+        inArray(schema.passengerRequest.tripId, tripIds),
+        eq(schema.passengerRequest.status, "pending"),
+      ),
+    )
+    .returning();
+
+  const dates = new Map(cancelledTrips.map((t) => [t.id, t.occurrenceDate]));
+  const ride = `${route.fromName} → ${route.toName}`;
+
+  await notify(
+    tx,
+    rejectedRequests.map((r) => ({
+      userId: r.passengerId,
+      type: "trip_cancelled" as const,
+      title: "A trip you requested was cancelled",
+      body: `The driver cancelled ${ride} on ${r.tripId ? dates.get(r.tripId) : "the requested date"}.`,
+      link: "/my-requests",
+    })),
+  );
+
+  return cancelledTrips;
+}
+
+/**
+ * Bring an already generated occurrence in line with its override (or with
+ * the route's settings when the override is removed).
+ *
+ * Seats can't drop below what passengers already hold; added seats go to the
+ * waitlist. A moved departure goes through `rescheduleTrip`, so booked
+ * passengers are told and, for larger moves, asked to confirm. Returns null
+ * when the occurrence has no scheduled trip yet.
+ */
+export async function applyOccurrenceOverride(
+  tx: Transaction,
+  route: schema.DriverRoute,
+  occurrenceDate: string,
+  override: Pick<
+    schema.DriverRouteOverride,
+    "baseTime" | "seatsOffered" | "pricePerSeat"
+  > | null,
+) {
+  const existingTrip = await tx.query.trip.findFirst({
+    where: and(
+      eq(schema.trip.driverRouteId, route.id),
+      eq(schema.trip.occurrenceDate, occurrenceDate),
+      eq(schema.trip.status, "scheduled"),
+    ),
+  });
+  if (!existingTrip) return null;
+
+  const lockedTrip = await lockTrip(tx, existingTrip.id);
+  const baseTime = override?.baseTime ?? route.baseTime;
+  const departureTime = baseTime
+    ? zonedTime(
+        new Date(`${occurrenceDate}T00:00:00Z`),
+        baseTime,
+        route.timezone,
+      )
+    : lockedTrip.departureTime;
+
+  if (departureTime <= new Date()) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The new departure time has already passed",
+    });
+  }
+
+  const seatsOffered = override?.seatsOffered ?? route.seatsOffered;
+  const seatsTaken =
+    (await getSeatsTaken(tx, [lockedTrip])).get(lockedTrip.id) ?? 0;
+
+  if (seatsOffered < seatsTaken) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${seatsTaken} seats are already taken on this trip`,
+    });
+  }
+
+  const [updatedTrip] = await tx
+    .update(schema.trip)
+    .set({
+      seatsOffered: override?.seatsOffered ?? null,
+      pricePerSeat: override?.pricePerSeat ?? null,
+    })
+    .where(eq(schema.trip.id, lockedTrip.id))
+    .returning();
+
+  if (seatsOffered > lockedTrip.seatsOffered) {
+    await promoteWaitlist(tx, lockedTrip.id);
+  }
+
+  if (departureTime.getTime() !== lockedTrip.departureTime.getTime()) {
+    return rescheduleTrip(tx, lockedTrip, route, departureTime);
+  }
+
+  return updatedTrip;
+}
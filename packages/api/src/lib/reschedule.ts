@@ -0,0 +1,347 @@
+import { TRPCError } from "@trpc/server";
+
+import type { Database, Transaction } from "@app/db/client";
+import { and, eq, lte } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { postSystemMessage } from "./conversations";
+import { notify } from "./notifications";
+import { transitionBooking } from "./trip-lifecycle";
+import { promoteWaitlist } from "./waitlist";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Departure changes larger than this need booked passengers to confirm */
+export const RESCHEDULE_THRESHOLD_MINUTES = 30;
+
+/** How long passengers have to confirm a departure change */
+export const RESCHEDULE_RESPONSE_HOURS = 24;
+
+type RescheduledRoute = Pick<
+  schema.DriverRoute,
+  "fromName" | "toName" | "driverId" | "timezone"
+>;
+
+/**
+ * A departure as passengers read it in notifications and messages, in the
+ * route's time zone (e.g. "Mon, Jan 6, 8:30 AM").
+ */
+export function formatDeparture(departureTime: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(departureTime);
+}
+
+/**
+ * Move a trip's departure. The caller must hold the trip lock.
+ *
+ * Small changes apply with a notification to booked passengers. Larger ones
+ * (more than RESCHEDULE_THRESHOLD_MINUTES) also ask every booked passenger to
+ * confirm: they keep their seat until they accept, cancel without penalty, or
+ * are released when the deadline passes. Each passenger gets a system message
+ * in their booking conversation. The move is recorded in the trip's status
+ * history as a change by the driver.
+ *
+ * Throws CONFLICT while passengers are still confirming an earlier change.
+ */
+export async function rescheduleTrip(
+  tx: Transaction,
+  lockedTrip: Pick<schema.Trip, "id" | "status" | "departureTime">,
+  route: RescheduledRoute,
+  departureTime: Date,
+) {
+  const now = new Date();
+
+  if (departureTime <= now) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The new departure time has already passed",
+    });
+  }
+
+  const pending = await tx.query.rescheduleConfirmation.findFirst({
+    where: and(
+      eq(schema.rescheduleConfirmation.tripId, lockedTrip.id),
+      eq(schema.rescheduleConfirmation.status, "pending"),
+    ),
+  });
+
+  if (pending) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "Passengers are still confirming the last departure change",
+    });
+  }
+
+  const [updatedTrip] = await tx
+    .update(schema.trip)
+    .set({ departureTime })
+    .where(eq(schema.trip.id, lockedTrip.id))
+    .returning();
+
+  if (!updatedTrip) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update trip",
+    });
+  }
+
+  const shiftMinutes =
+    Math.abs(departureTime.getTime() - lockedTrip.departureTime.getTime()) /
+    60_000;
+  if (shiftMinutes === 0) return updatedTrip;
+
+  await tx.insert(schema.tripStatusHistory).values({
+    tripId: lockedTrip.id,
+    fromStatus: lockedTrip.status,
+    toStatus: lockedTrip.status,
+    actorId: route.driverId,
+    reason: `Departure moved from ${formatDeparture(lockedTrip.departureTime, route.timezone)} to ${formatDeparture(departureTime, route.timezone)}`,
+  });
+
+  const bookings = await tx.query.booking.findMany({
+    where: and(
+      eq(schema.booking.tripId, lockedTrip.id),
+      eq(schema.booking.status, "confirmed"),
+    ),
+  });
+
+  const ride = `${route.fromName} → ${route.toName}`;
+  const when = formatDeparture(departureTime, route.timezone);
+
+  if (shiftMinutes <= RESCHEDULE_THRESHOLD_MINUTES) {
+    await notify(
+      tx,
+      bookings.map((b) => ({
+        userId: b.passengerId,
+        type: "trip_changed" as const,
+        title: "Your trip's departure changed",
+        body: `${ride} now leaves ${when}.`,
+        link: `/ride/${lockedTrip.id}`,
+      })),
+    );
+    return updatedTrip;
+  }
+
+  // Never ask for an answer after the trip has left
+  const respondBy = new Date(
+    Math.min(
+      now.getTime() + RESCHEDULE_RESPONSE_HOURS * HOUR_MS,
+      departureTime.getTime(),
+    ),
+  );
+  const deadline = formatDeparture(respondBy, route.timezone);
+
+  if (bookings.length > 0) {
+    await tx.insert(schema.rescheduleConfirmation).values(
+      bookings.map((b) => ({
+        tripId: lockedTrip.id,
+        bookingId: b.id,
+        previousDepartureTime: lockedTrip.departureTime,
+        newDepartureTime: departureTime,
+        respondBy,
+      })),
+    );
+  }
+
+  for (const b of bookings) {
+    await postSystemMessage(
+      tx,
+      b.id,
+      route.driverId,
+      `The driver moved the departure to ${when}. Please confirm your seat or cancel without penalty by ${deadline}.`,
+    );
+  }
+
+  await notify(
+    tx,
+    bookings.map((b) => ({
+      userId: b.passengerId,
+      type: "reschedule_proposed" as const,
+      title: "Please confirm your trip's new time",
+      body: `${ride} now leaves ${when}. Confirm or cancel without penalty by ${deadline}.`,
+      link: "/my-requests",
+    })),
+  );
+
+  return updatedTrip;
+}
+
+/**
+ * Cancel a booking a departure change no longer suits, without a penalty to
+ * the passenger. Closes its request and offers the seats to the waitlist.
+ * Returns false when the booking was already cancelled some other way.
+ */
+async function releaseBooking(
+  tx: Transaction,
+  bookingRecord: schema.Booking,
+  actorId: string | null,
+  reason: string,
+) {
+  if (bookingRecord.status !== "confirmed") return false;
+
+  const released = await transitionBooking(
+    tx,
+    bookingRecord.id,
+    "cancelled_by_driver",
+    { actorId, reason },
+  );
+
+  if (released.passengerRequestId) {
+    await tx
+      .update(schema.passengerRequest)
+      .set({ status: "cancelled" })
+      .where(eq(schema.passengerRequest.id, released.passengerRequestId));
+  }
+
+  await promoteWaitlist(tx, released.tripId);
+  return true;
+}
+
+/**
+ * Answer a departure change on one of the passenger's bookings: keep the seat
+ * at the new time, or cancel without penalty.
+ */
+export async function respondToReschedule(
+  tx: Transaction,
+  bookingId: string,
+  passengerId: string,
+  accept: boolean,
+) {
+  const [confirmation] = await tx
+    .select()
+    .from(schema.rescheduleConfirmation)
+    .innerJoin(
+      schema.booking,
+      eq(schema.rescheduleConfirmation.bookingId, schema.booking.id),
+    )
+    .where(
+      and(
+        eq(schema.rescheduleConfirmation.bookingId, bookingId),
+        eq(schema.rescheduleConfirmation.status, "pending"),
+        eq(schema.booking.passengerId, passengerId),
+      ),
+    )
+    .for("update", { of: schema.rescheduleConfirmation });
+
+  if (!confirmation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "No departure change is waiting for your answer",
+    });
+  }
+
+  if (confirmation.reschedule_confirmation.respondBy <= new Date()) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "The deadline to respond to this change has passed",
+    });
+  }
+
+  if (!accept) {
+    await releaseBooking(
+      tx,
+      confirmation.booking,
+      passengerId,
+      "Declined the new departure time",
+    );
+  }
+
+  const [updated] = await tx
+    .update(schema.rescheduleConfirmation)
+    .set({
+      status: accept ? "accepted" : "declined",
+      respondedAt: new Date(),
+    })
+    .where(
+      eq(
+        schema.rescheduleConfirmation.id,
+        confirmation.reschedule_confirmation.id,
+      ),
+    )
+    .returning();
+
+  await postSystemMessage(
+    tx,
+    bookingId,
+    passengerId,
+    accept
+      ? "The passenger confirmed the new departure time."
+      : "The passenger cancelled after the departure change.",
+  );
+
+  return updated;
+}
+
+/**
+ * Release bookings whose passengers didn't confirm a departure change before
+ * the deadline.
+ */
+export async function releaseUnconfirmedReschedules(db: Database) {
+  const expired = await db.query.rescheduleConfirmation.findMany({
+    where: and(
+      eq(schema.rescheduleConfirmation.status, "pending"),
+      lte(schema.rescheduleConfirmation.respondBy, new Date()),
+    ),
+  });
+
+  let released = 0;
+  for (const { id } of expired) {
+    try {
+      await db.transaction(async (tx) => {
+        const [confirmation] = await tx
+          .select()
+          .from(schema.rescheduleConfirmation)
+          .innerJoin(
+            schema.booking,
+            eq(schema.rescheduleConfirmation.bookingId, schema.booking.id),
+          )
+          .where(eq(schema.rescheduleConfirmation.id, id))
+          .for("update", { of: schema.rescheduleConfirmation });
+
+        // Answered since it was read
+        if (confirmation?.reschedule_confirmation.status !== "pending") return;
+
+        await tx
+          .update(schema.rescheduleConfirmation)
+          .set({ status: "released" })
+          .where(eq(schema.rescheduleConfirmation.id, id));
+
+        const wasReleased = await releaseBooking(
+          tx,
+          confirmation.booking,
+          null,
+          "Didn't confirm the new departure time",
+        );
+        if (!wasReleased) return;
+
+        await postSystemMessage(
+          tx,
+          confirmation.booking.id,
+          confirmation.booking.passengerId,
+          "The booking was released because the new departure time wasn't confirmed in time.",
+        );
+
+        await notify(tx, [
+          {
+            userId: confirmation.booking.passengerId,
+            type: "booking_released",
+            title: "Your booking was released",
+            body: "You didn't confirm your trip's new departure time in time.",
+            link: "/my-requests",
+          },
+        ]);
+        released++;
+      });
+    } catch (error) {
+      console.error(`[JOB] Failed to release reschedule ${id}`, error);
+    }
+  }
+
+  return released;
+}
@@ -0,0 +1,28 @@
+import type * as schema from "@app/db/schema";
+
+/**
+ * Why a booking can't be reviewed yet, or null when it can.
+ *
+ * Only rides that happened can be reviewed: the booking is completed and no
+ * no-show report on it is open or upheld. Trips only complete bookings whose
+ * passenger boarded (or whose no-show report was dismissed), so `boardedAt`
+ * isn't checked here; bookings completed before check-in existed have none.
+ */
+export function reviewBlocker(
+  bookingRecord: Pick<schema.Booking, "status"> & {
+    noShowReport: Pick<schema.NoShowReport, "status"> | null;
+  },
+) {
+  if (bookingRecord.status !== "completed") {
+    return "Booking is not completed yet";
+  }
+
+  if (
+    bookingRecord.noShowReport &&
+    bookingRecord.noShowReport.status !== "dismissed"
+  ) {
+    return "This booking has an open no-show report";
+  }
+
+  return null;
+}
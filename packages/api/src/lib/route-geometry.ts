@@ -0,0 +1,151 @@
+import type { LineString } from "geojson";
+import * as turf from "@turf/turf";
+
+import type { SQL, SQLWrapper } from "@app/db";
+import { sql } from "@app/db";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RoutePosition {
+  /** Perpendicular distance from the route, rounded to 0.1 km */
+  distanceKm: number;
+  /** Distance travelled along the route to the nearest point */
+  alongRouteKm: number;
+}
+
+/**
+ * Driver route columns to load for clients: the PostGIS columns are only for
+ * searching in SQL and would reach clients as raw EWKB, so they're left out
+ */
+export const DRIVER_ROUTE_COLUMNS = {
+  fromPoint: false,
+  toPoint: false,
+  routePath: false,
+} as const;
+
+/** Passenger listing columns to load for clients (see DRIVER_ROUTE_COLUMNS) */
+export const PASSENGER_ROUTE_COLUMNS = {
+  fromPoint: false,
+  toPoint: false,
+} as const;
+
+/**
+ * Project a point onto a route line using the same semantics as search:
+ * distance from the route and position along it, both in kilometers.
+ */
+export function positionOnRoute(
+  routeGeometry: LineString,
+  point: LatLng,
+): RoutePosition {
+  const line = turf.lineString(routeGeometry.coordinates);
+  const nearest = turf.nearestPointOnLine(
+    line,
+    turf.point([point.lng, point.lat]),
+    { units: "kilometers" },
+  );
+
+  return {
+    distanceKm: Math.round(nearest.properties.dist * 10) / 10,
+    alongRouteKm: nearest.properties.location,
+  };
+}
+
+/**
+ * A point as a PostGIS geography, to compare with the spatial columns
+ */
+export function geographyPoint(point: LatLng): SQL {
+  return sql`ST_SetSRID(ST_MakePoint(${point.lng}::float8, ${point.lat}::float8), 4326)::geography`;
+}
+
+/**
+ * A route line as a PostGIS geography
+ */
+export function geographyLine(routeGeometry: LineString): SQL {
+  return sql`ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(routeGeometry)}::text), 4326)::geography`;
+}
+
+/**
+ * `positionOnRoute` in SQL, for a geography route and point. Distances are on
+ * the spheroid, so they can differ from turf's by a few meters.
+ */
+export function sqlPositionOnRoute(route: SQLWrapper, point: SQLWrapper) {
+  return {
+    distanceKm: sql<number>`round((ST_Distance(${route}, ${point}) / 1000)::numeric, 1)::float8`,
+    alongRouteKm: sql<number>`ST_LineLocatePoint(${route}, ${point}) * ST_Length(${route}) / 1000`,
+  };
+}
+
+/**
+ * SQL condition: a point is within `radiusKm` of a route, by the rounded
+ * distance `positionOnRoute` reports. Served by GiST indexes on the columns.
+ */
+export function sqlNearRoute(
+  route: SQLWrapper,
+  point: SQLWrapper,
+  radiusKm: number,
+): SQL {
+  const { distanceKm } = sqlPositionOnRoute(route, point);
+  // The wider ST_DWithin lets the index narrow rows down before rounding
+  return sql`(ST_DWithin(${route}, ${point}, ${(radiusKm + 0.05) * 1000}::float8) and ${distanceKm} <= ${radiusKm}::float8)`;
+}
+
+/**
+ * SQL condition: a pickup comes before a dropoff along a route
+ */
+export function sqlSameDirection(
+  route: SQLWrapper,
+  pickup: SQLWrapper,
+  dropoff: SQLWrapper,
+): SQL {
+  return sql`ST_LineLocatePoint(${route}, ${pickup}) < ST_LineLocatePoint(${route}, ${dropoff})`;
+}
+
+/**
+ * Check that a pickup comes before a dropoff along the driver's route
+ * (i.e. the passenger is travelling in the same direction as the driver).
+ */
+export function isSameDirection(
+  routeGeometry: LineString,
+  pickup: LatLng,
+  dropoff: LatLng,
+) {
+  const pickupPosition = positionOnRoute(routeGeometry, pickup);
+  const dropoffPosition = positionOnRoute(routeGeometry, dropoff);
+  return pickupPosition.alongRouteKm < dropoffPosition.alongRouteKm;
+}
+
+/**
+ * Rough extra driving needed to serve a passenger: the driver leaves the
+ * route to reach the pickup and the dropoff and comes back each time.
+ */
+export function estimateDetourKm(
+  routeGeometry: LineString,
+  pickup: LatLng,
+  dropoff: LatLng,
+) {
+  const pickupPosition = positionOnRoute(routeGeometry, pickup);
+  const dropoffPosition = positionOnRoute(routeGeometry, dropoff);
+  return 2 * (pickupPosition.distanceKm + dropoffPosition.distanceKm);
+}
+
+/**
+ * Fallback route for when the driver didn't send a planned one: a straight
+ * line between the two points, with its length in kilometers.
+ */
+export function straightLineRoute(from: LatLng, to: LatLng) {
+  const geometry: LineString = {
+    type: "LineString",
+    coordinates: [
+      [from.lng, from.lat],
+      [to.lng, to.lat],
+    ],
+  };
+
+  return {
+    geometry,
+    distanceKm: turf.length(turf.feature(geometry), { units: "kilometers" }),
+  };
+}
@@ -0,0 +1,302 @@
+import type { LineString } from "geojson";
+import { TRPCError } from "@trpc/server";
+
+import type { Database, Transaction } from "@app/db/client";
+import { and, eq, gt, inArray, notExists, sql } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { positionOnRoute } from "./route-geometry";
+
+interface TripWithCapacity {
+  id: string;
+  seatsOffered: number | null;
+  driverRoute: { seatsOffered: number; routeGeometry: LineString };
+}
+
+interface TripWithRoute {
+  id: string;
+  routeGeometry: LineString;
+}
+
+/**
+ * A passenger's stretch of a trip, as stored on bookings, requests and
+ * waitlist entries. A missing pickup means the start of the route and a
+ * missing dropoff its end.
+ */
+export interface SeatLeg {
+  pickupLat?: number | null;
+  pickupLng?: number | null;
+  dropoffLat?: number | null;
+  dropoffLng?: number | null;
+}
+
+/** Seats held from one point along the route up to (not including) another */
+export interface SeatOccupancy {
+  seats: number;
+  startKm: number;
+  endKm: number;
+}
+
+/**
+ * Tolerance when comparing positions along a route, so a dropoff and a
+ * pickup at the same place don't overlap because of rounding
+ */
+const SAME_POINT_KM = 0.05;
+
+/**
+ * Seats a trip offers: its own override, or the route's default
+ */
+export function tripSeatsOffered(t: TripWithCapacity) {
+  return t.seatsOffered ?? t.driverRoute.seatsOffered;
+}
+
+/**
+ * Where a leg starts and ends along the route, in kilometers
+ */
+export function legSpan(routeGeometry: LineString, leg?: SeatLeg) {
+  const startKm =
+    leg?.pickupLat != null && leg.pickupLng != null
+      ? positionOnRoute(routeGeometry, {
+          lat: leg.pickupLat,
+          lng: leg.pickupLng,
+        }).alongRouteKm
+      : 0;
+  const endKm =
+    leg?.dropoffLat != null && leg.dropoffLng != null
+      ? positionOnRoute(routeGeometry, {
+          lat: leg.dropoffLat,
+          lng: leg.dropoffLng,
+        }).alongRouteKm
+      : Infinity;
+
+  return { startKm, endKm };
+}
+
+/**
+ * Load who holds seats on each trip, and over which part of its route:
+ * confirmed bookings, accepted requests that have not been turned into a
+ * booking, and seats held for waitlisted passengers with an open offer.
+ */
+export async function getSeatOccupancy(
+  db: Database | Transaction,
+  trips: TripWithRoute[],
+) {
+  const occupancy = new Map<string, SeatOccupancy[]>(
+    trips.map((t) => [t.id, []]),
+  );
+  if (trips.length === 0) return occupancy;
+
+  const tripIds = trips.map((t) => t.id);
+  const legColumns = {
+    pickupLat: true,
+    pickupLng: true,
+    dropoffLat: true,
+    dropoffLng: true,
+  } as const;
+
+  const [bookings, acceptedRequests, heldEntries] = await Promise.all([
+    db.query.booking.findMany({
+      where: and(
+        inArray(schema.booking.tripId, tripIds),
+        eq(schema.booking.status, "confirmed"),
+      ),
+      columns: { tripId: true, seatsBooked: true, ...legColumns },
+    }),
+
+    db.query.passengerRequest.findMany({
+      where: and(
+        inArray(schema.passengerRequest.tripId, tripIds),
+        eq(schema.passengerRequest.status, "accepted"),
+        notExists(
+          db
+            .select({ id: schema.booking.id })
+            .from(schema.booking)
+            .where(
+              eq(schema.booking.passengerRequestId, schema.passengerRequest.id),
+            ),
+        ),
+      ),
+      columns: { tripId: true, seatsRequested: true, ...legColumns },
+    }),
+
+    db.query.waitlistEntry.findMany({
+      where: and(
+        inArray(schema.waitlistEntry.tripId, tripIds),
+        eq(schema.waitlistEntry.status, "offered"),
+        gt(schema.waitlistEntry.offerExpiresAt, new Date()),
+      ),
+      columns: { tripId: true, seatsRequested: true, ...legColumns },
+    }),
+  ]);
+
+  const routes = new Map(trips.map((t) => [t.id, t.routeGeometry]));
+  const rows = [
+    ...bookings.map((b) => ({ ...b, seats: b.seatsBooked })),
+    ...acceptedRequests.map((r) => ({ ...r, seats: r.seatsRequested })),
+    ...heldEntries.map((e) => ({ ...e, seats: e.seatsRequested })),
+  ];
+
+  for (const row of rows) {
+    const routeGeometry = row.tripId ? routes.get(row.tripId) : undefined;
+    if (!row.tripId || !routeGeometry) continue;
+    occupancy.get(row.tripId)?.push({
+      seats: row.seats,
+      ...legSpan(routeGeometry, row),
+    });
+  }
+
+  return occupancy;
+}
+
+/**
+ * The most seats held at any one point of a leg. Without a leg this is the
+ * peak over the whole route.
+ *
+ * Occupancy only changes where someone is picked up, so the peak is at the
+ * start of the leg or at one of the pickups inside it.
+ */
+export function seatsTakenOnLeg(
+  occupancy: SeatOccupancy[],
+  routeGeometry: LineString,
+  leg?: SeatLeg,
+) {
+  const span = legSpan(routeGeometry, leg);
+  const points = [
+    span.startKm,
+    ...occupancy
+      .map((o) => o.startKm)
+      .filter((km) => km > span.startKm && km < span.endKm - SAME_POINT_KM),
+  ];
+
+  return Math.max(
+    0,
+    ...points.map((km) =>
+      occupancy
+        .filter(
+          (o) =>
+            o.startKm <= km + SAME_POINT_KM && km < o.endKm - SAME_POINT_KM,
+        )
+        .reduce((total, o) => total + o.seats, 0),
+    ),
+  );
+}
+
+/**
+ * Count the seats already taken on each trip along a passenger's leg (see
+ * `seatsTakenOnLeg`). A seat freed partway along the route can be taken
+ * again from there, so a leg only counts the passengers it overlaps.
+ */
+export async function getSeatsTaken(
+  db: Database | Transaction,
+  trips: TripWithRoute[],
+  leg?: SeatLeg,
+) {
+  const occupancy = await getSeatOccupancy(db, trips);
+
+  return new Map(
+    trips.map((t) => [
+      t.id,
+      seatsTakenOnLeg(occupancy.get(t.id) ?? [], t.routeGeometry, leg),
+    ]),
+  );
+}
+
+/**
+ * Remaining seats per trip along a passenger's leg (the whole route when no
+ * leg is given): the seats it offers minus seats taken
+ */
+export async function getAvailableSeats(
+  db: Database | Transaction,
+  trips: TripWithCapacity[],
+  leg?: SeatLeg,
+) {
+  const seatsTaken = await getSeatsTaken(
+    db,
+    trips.map((t) => ({
+      id: t.id,
+      routeGeometry: t.driverRoute.routeGeometry,
+    })),
+    leg,
+  );
+
+  return new Map(
+    trips.map((t) => [
+      t.id,
+      Math.max(0, tripSeatsOffered(t) - (seatsTaken.get(t.id) ?? 0)),
+    ]),
+  );
+}
+
+/**
+ * Lock a trip row for the rest of the transaction (`SELECT ... FOR UPDATE`)
+ * and return its status, capacity and route.
+ *
+ * Every change to a trip's seat inventory goes through this lock, so
+ * concurrent reservations on the same trip run one after another and each one
+ * sees the bookings committed by the previous.
+ */
+export async function lockTrip(tx: Transaction, tripId: string) {
+  const [lockedTrip] = await tx
+    .select({
+      id: schema.trip.id,
+      status: schema.trip.status,
+      departureTime: schema.trip.departureTime,
+      seatsOffered: sql<number>`coalesce(${schema.trip.seatsOffered}, ${schema.driverRoute.seatsOffered})`,
+      routeGeometry: schema.driverRoute.routeGeometry,
+    })
+    .from(schema.trip)
+    .innerJoin(
+      schema.driverRoute,
+      eq(schema.trip.driverRouteId, schema.driverRoute.id),
+    )
+    .where(eq(schema.trip.id, tripId))
+    .for("update", { of: schema.trip });
+
+  if (!lockedTrip) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Trip not found",
+    });
+  }
+
+  return lockedTrip;
+}
+
+/**
+ * Reserve seats on a trip inside a transaction, for the passenger's leg of
+ * the route (the whole route when no leg is given).
+ *
+ * Locks the trip (see `lockTrip`) before counting. The caller must insert the
+ * booking in the same transaction for the reservation to hold.
+ */
+export async function reserveSeats(
+  tx: Transaction,
+  tripId: string,
+  seats: number,
+  leg?: SeatLeg,
+) {
+  const lockedTrip = await lockTrip(tx, tripId);
+
+  if (lockedTrip.status !== "scheduled") {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Can only book seats on scheduled trips",
+    });
+  }
+
+  const seatsTaken =
+    (await getSeatsTaken(tx, [lockedTrip], leg)).get(tripId) ?? 0;
+  const availableSeats = Math.max(0, lockedTrip.seatsOffered - seatsTaken);
+
+  if (seats > availableSeats) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message:
+        availableSeats === 0
+          ? "This trip is full"
+          : `Not enough seats left on this trip (${availableSeats} available, ${seats} requested)`,
+    });
+  }
+
+  return { availableSeats: availableSeats - seats };
+}
@@ -0,0 +1,71 @@
+import type { z } from "zod/v4";
+import { TRPCError } from "@trpc/server";
+import * as turf from "@turf/turf";
+
+import type { Transaction } from "@app/db/client";
+import type { DriverRouteStopInputSchema } from "@app/db/schema";
+import { eq } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { positionOnRoute } from "./route-geometry";
+
+/** Stops further than this from the planned route are rejected */
+export const MAX_STOP_DISTANCE_KM = 25;
+
+export type StopInput = z.infer<typeof DriverRouteStopInputSchema>;
+
+/**
+ * Replace a route's stops.
+ *
+ * Stops are ordered by where they fall along the route geometry. Stops
+ * without an explicit time offset get one estimated from the route's
+ * duration, assuming a steady pace.
+ */
+export async function setRouteStops(
+  tx: Transaction,
+  route: Pick<schema.DriverRoute, "id" | "routeGeometry" | "durationMinutes">,
+  stops: StopInput[],
+) {
+  const lengthKm = turf.length(turf.feature(route.routeGeometry), {
+    units: "kilometers",
+  });
+
+  const placed = stops.map((stop) => {
+    const position = positionOnRoute(route.routeGeometry, stop);
+
+    if (position.distanceKm > MAX_STOP_DISTANCE_KM) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `${stop.name} is more than ${MAX_STOP_DISTANCE_KM} km from the route`,
+      });
+    }
+
+    return {
+      ...stop,
+      driverRouteId: route.id,
+      alongRouteKm: position.alongRouteKm,
+      offsetMinutes:
+        stop.offsetMinutes ??
+        (route.durationMinutes && lengthKm > 0
+          ? Math.round(
+              (route.durationMinutes * position.alongRouteKm) / lengthKm,
+            )
+          : null),
+    };
+  });
+
+  await tx
+    .delete(schema.driverRouteStop)
+    .where(eq(schema.driverRouteStop.driverRouteId, route.id));
+
+  if (placed.length === 0) return [];
+
+  return tx
+    .insert(schema.driverRouteStop)
+    .values(
+      placed
+        .sort((a, b) => a.alongRouteKm - b.alongRouteKm)
+        .map((stop, position) => ({ ...stop, position })),
+    )
+    .returning();
+}
@@ -0,0 +1,421 @@
+import { TRPCError } from "@trpc/server";
+
+import type { Database, Transaction } from "@app/db/client";
+import type {
+  BookingStatus,
+  NoShowReportStatus,
+  TripStatus,
+} from "@app/db/schema";
+import {
+  and,
+  eq,
+  exists,
+  inArray,
+  isNotNull,
+  lte,
+  notExists,
+  or,
+  sql,
+} from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { notify } from "./notifications";
+import { lockTrip } from "./seats";
+
+/** Statuses each trip status can move to */
+export const TRIP_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  scheduled: ["in_progress", "cancelled"],
+  in_progress: ["completed"],
+  completed: [],
+  cancelled: [],
+};
+
+/** Statuses each booking status can move to */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  confirmed: [
+    "completed",
+    "no_show_driver",
+    "no_show_passenger",
+    "cancelled_by_driver",
+    "cancelled_by_passenger",
+  ],
+  // Upheld no-show reports can be filed after the trip is completed
+  completed: ["no_show_driver", "no_show_passenger"],
+  no_show_driver: [],
+  no_show_passenger: [],
+  cancelled_by_driver: [],
+  cancelled_by_passenger: [],
+};
+
+/** How long after its expected arrival a trip is completed automatically */
+export const AUTO_COMPLETE_GRACE_MINUTES = 120;
+
+/** No-show report statuses that still hold their booking open */
+export const OPEN_NO_SHOW_STATUSES: NoShowReportStatus[] = [
+  "unconfirmed",
+  "pending",
+  "contested",
+];
+
+const TRIP_ACTIONS: Record<TripStatus, string> = {
+  scheduled: "rescheduled",
+  in_progress: "started",
+  completed: "completed",
+  cancelled: "cancelled",
+};
+
+/** Who made a status change and why; a null actor is the system */
+export interface TransitionContext {
+  actorId: string | null;
+  reason?: string | null;
+}
+
+function describe(status: string) {
+  return status.replaceAll("_", " ");
+}
+
+/**
+ * Close a trip's waitlist once it stops taking bookings: open entries expire,
+ * and passengers holding a seat offer (or, when the trip is cancelled, anyone
+ * still waiting) are told.
+ */
+async function closeWaitlist(
+  tx: Transaction,
+  tripId: string,
+  toStatus: TripStatus,
+) {
+  const closed = await tx
+    .update(schema.waitlistEntry)
+    .set({ status: "expired" })
+    .where(
+      and(
+        eq(schema.waitlistEntry.tripId, tripId),
+        inArray(schema.waitlistEntry.status, ["waiting", "offered"]),
+      ),
+    )
+    .returning({
+      passengerId: schema.waitlistEntry.passengerId,
+      offerExpiresAt: schema.waitlistEntry.offerExpiresAt,
+    });
+
+  const toNotify = closed.filter(
+    (entry) => toStatus === "cancelled" || entry.offerExpiresAt !== null,
+  );
+  if (toNotify.length === 0) return;
+
+  const tripRecord = await tx.query.trip.findFirst({
+    where: eq(schema.trip.id, tripId),
+    with: {
+      driverRoute: {
+        columns: { fromName: true, toName: true },
+      },
+    },
+  });
+  const ride = tripRecord
+    ? `${tripRecord.driverRoute.fromName} → ${tripRecord.driverRoute.toName}`
+    : "your ride";
+
+  await notify(
+    tx,
+    toNotify.map((entry) => ({
+      userId: entry.passengerId,
+      type: "waitlist_closed" as const,
+      title:
+        toStatus === "cancelled"
+          ? "A ride you were waitlisted for was cancelled"
+          : "Your waitlist seat offer has closed",
+      body:
+        toStatus === "cancelled"
+          ? `The driver cancelled ${ride}, so its waitlist is closed.`
+          : `${ride} has departed, so the seat held for you is no longer available.`,
+      link: "/my-requests",
+    })),
+  );
+}
+
+/**
+ * Move a trip to a new status, applying the side effects of the transition
+ * and recording it in the status history.
+ *
+ * - completed: the trip's completion time is set and its confirmed bookings
+ *   whose passengers were checked in are completed, as are those whose
+ *   no-show report was dismissed while the trip was under way
+ * - cancelled: its confirmed bookings are cancelled by the driver
+ *
+ * A trip leaving scheduled also closes its waitlist.
+ *
+ * Bookings with an open no-show report stay confirmed either way; settling
+ * the report moves them on. So do bookings on a completed trip whose
+ * passengers never boarded, until `reportUnboardedPassengers` files a report
+ * for them.
+ *
+ * Locks the trip first, so concurrent transitions run one after the other.
+ * Throws PRECONDITION_FAILED when the transition isn't allowed.
+ */
+export async function transitionTrip(
+  tx: Transaction,
+  tripId: string,
+  toStatus: TripStatus,
+  context: TransitionContext,
+) {
+  const lockedTrip = await lockTrip(tx, tripId);
+
+  if (!TRIP_TRANSITIONS[lockedTrip.status].includes(toStatus)) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `This trip is ${describe(lockedTrip.status)} and can't be ${TRIP_ACTIONS[toStatus]}`,
+    });
+  }
+
+  const now = new Date();
+
+  const [updatedTrip] = await tx
+    .update(schema.trip)
+    .set({
+      status: toStatus,
+      ...(toStatus === "completed" && { completedAt: now }),
+    })
+    .where(eq(schema.trip.id, tripId))
+    .returning();
+
+  if (!updatedTrip) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update trip",
+    });
+  }
+
+  const bookingStatus: BookingStatus | null =
+    toStatus === "completed"
+      ? "completed"
+      : toStatus === "cancelled"
+        ? "cancelled_by_driver"
+        : null;
+
+  const bookings = bookingStatus
+    ? await tx
+        .update(schema.booking)
+        .set({
+          status: bookingStatus,
+          ...(bookingStatus === "completed"
+            ? { completedAt: now }
+            : { cancelledAt: now, cancellationReason: context.reason }),
+        })
+        .where(
+          and(
+            eq(schema.booking.tripId, tripId),
+            eq(schema.booking.status, "confirmed"),
+            bookingStatus === "completed"
+              ? or(
+                  isNotNull(schema.booking.boardedAt),
+                  exists(
+                    tx
+                      .select({ id: schema.noShowReport.id })
+                      .from(schema.noShowReport)
+                      .where(
+                        and(
+                          eq(schema.noShowReport.bookingId, schema.booking.id),
+                          eq(schema.noShowReport.status, "dismissed"),
+                        ),
+                      ),
+                  ),
+                )
+              : undefined,
+            notExists(
+              tx
+                .select({ id: schema.noShowReport.id })
+                .from(schema.noShowReport)
+                .where(
+                  and(
+                    eq(schema.noShowReport.bookingId, schema.booking.id),
+                    inArray(schema.noShowReport.status, OPEN_NO_SHOW_STATUSES),
+                  ),
+                ),
+            ),
+          ),
+        )
+        .returning()
+    : [];
+
+  if (lockedTrip.status === "scheduled") {
+    await closeWaitlist(tx, tripId, toStatus);
+  }
+
+  await tx.insert(schema.tripStatusHistory).values([
+    {
+      tripId,
+      fromStatus: lockedTrip.status,
+      toStatus,
+      actorId: context.actorId,
+      reason: context.reason,
+    },
+    ...bookings.map((b) => ({
+      tripId,
+      bookingId: b.id,
+      fromStatus: "confirmed",
+      toStatus: b.status,
+      actorId: context.actorId,
+      reason: context.reason,
+    })),
+  ]);
+
+  return { trip: updatedTrip, bookings };
+}
+
+/**
+ * Move one booking to a new status and record it in the status history.
+ * Cancellations get their time and reason, completions their time; `values`
+ * sets any other columns (e.g. the late cancellation flag).
+ *
+ * Locks the booking first. Throws PRECONDITION_FAILED when the transition
+ * isn't allowed.
+ */
+export async function transitionBooking(
+  tx: Transaction,
+  bookingId: string,
+  toStatus: BookingStatus,
+  context: TransitionContext,
+  values: Partial<Pick<schema.NewBooking, "isLateCancellation">> = {},
+) {
+  const [lockedBooking] = await tx
+    .select()
+    .from(schema.booking)
+    .where(eq(schema.booking.id, bookingId))
+    .for("update");
+
+  if (!lockedBooking) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Booking not found",
+    });
+  }
+
+  if (!BOOKING_TRANSITIONS[lockedBooking.status].includes(toStatus)) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `This booking is ${describe(lockedBooking.status)} and can't be marked ${describe(toStatus)}`,
+    });
+  }
+
+  const now = new Date();
+  const isCancellation =
+    toStatus === "cancelled_by_driver" || toStatus === "cancelled_by_passenger";
+
+  const [updatedBooking] = await tx
+    .update(schema.booking)
+    .set({
+      ...values,
+      status: toStatus,
+      ...(isCancellation && {
+        cancelledAt: now,
+        cancellationReason: context.reason,
+      }),
+      ...(toStatus === "completed" && { completedAt: now }),
+    })
+    .where(eq(schema.booking.id, bookingId))
+    .returning();
+
+  if (!updatedBooking) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to update booking",
+    });
+  }
+
+  await tx.insert(schema.tripStatusHistory).values({
+    tripId: lockedBooking.tripId,
+    bookingId,
+    fromStatus: lockedBooking.status,
+    toStatus,
+    actorId: context.actorId,
+    reason: context.reason,
+  });
+
+  return updatedBooking;
+}
+
+/**
+ * Move trips along on the driver's behalf: scheduled trips are started once
+ * they depart, and trips in progress are completed once their route's
+ * duration plus a grace period has passed. Trips with a contested no-show
+ * report are left in progress until it is settled; contested reports are
+ * dismissed at their resolveBy at the latest (see
+ * `finalizeExpiredNoShowReports`), so they can't hold a trip back for long.
+ *
+ * Trips the driver moved on in the meantime are skipped.
+ */
+export async function advanceDueTrips(db: Database) {
+  const now = new Date();
+
+  const dueToStart = await db
+    .select({ id: schema.trip.id })
+    .from(schema.trip)
+    .where(
+      and(
+        eq(schema.trip.status, "scheduled"),
+        lte(schema.trip.departureTime, now),
+      ),
+    );
+
+  let advanced = 0;
+  for (const { id } of dueToStart) {
+    advanced += await advanceTrip(db, id, "scheduled", "in_progress");
+  }
+
+  const dueToComplete = await db
+    .select({ id: schema.trip.id })
+    .from(schema.trip)
+    .innerJoin(
+      schema.driverRoute,
+      eq(schema.trip.driverRouteId, schema.driverRoute.id),
+    )
+    .where(
+      and(
+        eq(schema.trip.status, "in_progress"),
+        lte(
+          sql`${schema.trip.departureTime} + make_interval(mins => coalesce(${schema.driverRoute.durationMinutes}, 0) + ${AUTO_COMPLETE_GRACE_MINUTES})`,
+          now,
+        ),
+        notExists(
+          db
+            .select({ id: schema.noShowReport.id })
+            .from(schema.noShowReport)
+            .where(
+              and(
+                eq(schema.noShowReport.tripId, schema.trip.id),
+                eq(schema.noShowReport.status, "contested"),
+              ),
+            ),
+        ),
+      ),
+    );
+
+  for (const { id } of dueToComplete) {
+    advanced += await advanceTrip(db, id, "in_progress", "completed");
+  }
+
+  return advanced;
+}
+
+async function advanceTrip(
+  db: Database,
+  tripId: string,
+  fromStatus: TripStatus,
+  toStatus: TripStatus,
+) {
+  try {
+    return await db.transaction(async (tx) => {
+      const lockedTrip = await lockTrip(tx, tripId);
+      if (lockedTrip.status !== fromStatus) return 0;
+
+      await transitionTrip(tx, tripId, toStatus, {
+        actorId: null,
+        reason: `Trip ${TRIP_ACTIONS[toStatus]} automatically`,
+      });
+      return 1;
+    });
+  } catch (error) {
+    console.error(`[JOB] Failed to advance trip ${tripId}`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,390 @@
+import * as turf from "@turf/turf";
+
+import type { SQL } from "@app/db";
+import type { Database, Transaction } from "@app/db/client";
+import type { DriverRouteStop } from "@app/db/schema";
+import type { LuggageSize, TripAmenity, TripSort } from "@app/validators";
+import { and, asc, eq, gte, inArray, lte, sql } from "@app/db";
+import * as schema from "@app/db/schema";
+import { LUGGAGE_SIZES } from "@app/validators";
+
+import type { LatLng } from "./route-geometry";
+import { legPricePerSeat } from "./bookings";
+import { rankTrips } from "./match-ranking";
+import {
+  DRIVER_ROUTE_COLUMNS,
+  geographyPoint,
+  sqlNearRoute,
+  sqlPositionOnRoute,
+  sqlSameDirection,
+} from "./route-geometry";
+import { getAvailableSeats } from "./seats";
+
+/**
+ * Candidate trips loaded per result asked for; ranking and the price and seat
+ * filters choose among them
+ */
+const MATCH_CANDIDATES_PER_RESULT = 5;
+
+/**
+ * When the passenger wants to leave, in each route's local time
+ */
+export interface DepartureWindow {
+  /** Requested calendar day, e.g. "2025-06-07" */
+  date: string;
+  /** Also accept trips this many days before or after */
+  flexibilityDays: number;
+  /** Time of day range, e.g. 07:00 to 10:00; wraps past midnight when `to` is earlier */
+  times?: { from: string; to: string };
+}
+
+const AMENITY_COLUMNS = {
+  bikes: schema.driverRoute.allowsBikes,
+  skis: schema.driverRoute.allowsSkis,
+  pets: schema.driverRoute.allowsPets,
+  winterTires: schema.driverRoute.hasWinterTires,
+} satisfies Record<TripAmenity, unknown>;
+
+/**
+ * What a passenger needs from a trip beyond getting there
+ */
+export interface TripFilters {
+  /** Every one of these must be offered */
+  amenities?: TripAmenity[];
+  /** The route must take luggage at least this size */
+  minLuggageSize?: LuggageSize;
+  /** In cents, for the passenger's own stretch; unpriced trips always pass */
+  maxPricePerSeat?: number;
+  /** Drivers without reviews never pass */
+  minDriverRating?: number;
+  /** Seats free on the passenger's own stretch */
+  minSeats?: number;
+}
+
+export interface TripMatchQuery {
+  pickup: LatLng;
+  dropoff: LatLng;
+  /** How far from the route the pickup and dropoff can be */
+  radiusKm: number;
+  departAfter: Date;
+  departBefore?: Date;
+  window?: DepartureWindow;
+  filters?: TripFilters;
+  /** Best match unless given */
+  sort?: TripSort;
+  limit: number;
+}
+
+/**
+ * The route stop closest to a point, if one is within the radius
+ */
+function nearestStop(
+  stops: DriverRouteStop[],
+  point: LatLng,
+  radiusKm: number,
+) {
+  let nearest: { stop: DriverRouteStop; distanceKm: number } | null = null;
+
+  for (const stop of stops) {
+    const distanceKm = turf.distance(
+      [point.lng, point.lat],
+      [stop.lng, stop.lat],
+      {
+        units: "kilometers",
+      },
+    );
+    if (
+      distanceKm <= radiusKm &&
+      (!nearest || distanceKm < nearest.distanceKm)
+    ) {
+      nearest = { stop, distanceKm: Math.round(distanceKm * 10) / 10 };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * SQL for a departure window: the condition trips must meet, and how many
+ * minutes a trip leaves outside the window on the requested day (0 inside it).
+ */
+function departureWindowSql(window: DepartureWindow) {
+  const localDeparture = sql`(${schema.trip.departureTime} at time zone ${schema.driverRoute.timezone})`;
+  const from = window.times?.from ?? "00:00";
+  const to = window.times?.to ?? "24:00";
+  const wraps = !!window.times && window.times.to <= window.times.from;
+
+  const timeOfDay = wraps
+    ? sql`(${localDeparture}::time >= ${from}::time or ${localDeparture}::time <= ${to}::time)`
+    : sql`${localDeparture}::time between ${from}::time and ${to}::time`;
+
+  const start = (dayOffset: number) =>
+    sql`(${window.date}::date + ${dayOffset}::int + ${from}::time)`;
+  const end = (dayOffset: number) =>
+    sql`(${window.date}::date + ${dayOffset + (wraps ? 1 : 0)}::int + ${to}::time)`;
+
+  return {
+    condition: sql`(${timeOfDay} and ${localDeparture} between ${start(-window.flexibilityDays)} and ${end(window.flexibilityDays)})`,
+    minutesOutside: sql<number>`round(greatest(extract(epoch from ${start(0)} - ${localDeparture}), extract(epoch from ${localDeparture} - ${end(0)}), 0) / 60)::int`,
+  };
+}
+
+/**
+ * SQL order in which to consider matching trips for a sort. It follows
+ * `rankTrips` as closely as SQL can without the passenger's stretch, so the
+ * trips it ranks first are among the candidates loaded.
+ */
+function candidateOrderSql(
+  sort: TripSort,
+  columns: {
+    pickupDistanceKm: SQL<number>;
+    dropoffDistanceKm: SQL<number>;
+    minutesFromRequestedTime?: SQL<number>;
+    fullPrice: SQL<number | null>;
+    driverAverageRating: SQL<number | null>;
+  },
+) {
+  const closest = [
+    ...(columns.minutesFromRequestedTime
+      ? [asc(columns.minutesFromRequestedTime)]
+      : []),
+    sql`${columns.pickupDistanceKm} + ${columns.dropoffDistanceKm}`,
+  ];
+  const tiebreak = [asc(schema.trip.departureTime), asc(schema.trip.id)];
+
+  switch (sort) {
+    case "earliest":
+      return tiebreak;
+    case "cheapest":
+      return [
+        sql`${columns.fullPrice} asc nulls last`,
+        ...closest,
+        ...tiebreak,
+      ];
+    case "topRated":
+      return [
+        sql`${columns.driverAverageRating} desc nulls last`,
+        ...closest,
+        ...tiebreak,
+      ];
+    case "bestMatch":
+      return [...closest, ...tiebreak];
+  }
+}
+
+/**
+ * SQL for the driver's average rating (rounded like `review.stats`) and
+ * number of visible reviews
+ */
+function driverRatingSql() {
+  const visibleReviews = sql`from ${schema.review} where ${schema.review.revieweeId} = ${schema.trip.driverId} and ${schema.review.isVisible} = 1`;
+
+  return {
+    averageRating: sql<
+      number | null
+    >`(select round(avg(${schema.review.rating}), 1)::float8 ${visibleReviews})`,
+    totalReviews: sql<number>`(select count(*)::int ${visibleReviews})`,
+  };
+}
+
+/**
+ * Scheduled trips whose routes pass near a pickup and a dropoff, in that
+ * order. Route stops near either point are suggested as meeting points. Each
+ * trip comes with the price and the seats available for the passenger's own
+ * stretch of the route, and is ranked and explained by `rankTrips`.
+ *
+ * Proximity and direction are checked in SQL against the routes' spatial
+ * columns, and SQL orders the matches for the sort and loads only the first
+ * few per result asked for (see `candidateOrderSql`).
+ *
+ * With a departure window, only trips leaving inside it are returned, and
+ * `minutesFromRequestedTime` tells how far each leaves from the requested
+ * day's time range.
+ *
+ * Filters on the route and driver are applied in SQL; price and seat filters
+ * apply to the passenger's stretch, so they are checked once those are known.
+ * Seats are counted only for as many ranked trips as it takes to fill the
+ * page.
+ */
+export async function findMatchingTrips(
+  db: Database | Transaction,
+  query: TripMatchQuery,
+) {
+  const routePath = schema.driverRoute.routePath;
+  const pickup = geographyPoint(query.pickup);
+  const dropoff = geographyPoint(query.dropoff);
+  const pickupPosition = sqlPositionOnRoute(routePath, pickup);
+  const dropoffPosition = sqlPositionOnRoute(routePath, dropoff);
+  const window = query.window && departureWindowSql(query.window);
+  const driverRating = driverRatingSql();
+  const filters = query.filters ?? {};
+
+  const fullPrice = sql<
+    number | null
+  >`coalesce(${schema.trip.pricePerSeat}, ${schema.driverRoute.pricePerSeat})`;
+
+  // Scheduled trips in the time window passing near both points, the likeliest
+  // picks for the sort first
+  const positions = await db
+    .select({
+      id: schema.trip.id,
+      pickupDistanceKm: pickupPosition.distanceKm,
+      dropoffDistanceKm: dropoffPosition.distanceKm,
+      pickupAlongRouteKm: pickupPosition.alongRouteKm,
+      dropoffAlongRouteKm: dropoffPosition.alongRouteKm,
+      minutesFromRequestedTime: window
+        ? window.minutesOutside
+        : sql<null>`null`,
+      driverAverageRating: driverRating.averageRating,
+      driverTotalReviews: driverRating.totalReviews,
+    })
+    .from(schema.trip)
+    .innerJoin(
+      schema.driverRoute,
+      eq(schema.trip.driverRouteId, schema.driverRoute.id),
+    )
+    .where(
+      and(
+        eq(schema.trip.status, "scheduled"),
+        gte(schema.trip.departureTime, query.departAfter),
+        query.departBefore
+          ? lte(schema.trip.departureTime, query.departBefore)
+          : undefined,
+        window?.condition,
+        sqlNearRoute(routePath, pickup, query.radiusKm),
+        sqlNearRoute(routePath, dropoff, query.radiusKm),
+        // Pickup must come before dropoff along the route (same direction)
+        sqlSameDirection(routePath, pickup, dropoff),
+        ...(filters.amenities ?? []).map((amenity) =>
+          eq(AMENITY_COLUMNS[amenity], true),
+        ),
+        filters.minLuggageSize
+          ? inArray(
+              schema.driverRoute.luggageSize,
+              LUGGAGE_SIZES.slice(
+                LUGGAGE_SIZES.indexOf(filters.minLuggageSize),
+              ),
+            )
+          : undefined,
+        filters.minDriverRating !== undefined
+          ? sql`${driverRating.averageRating} >= ${filters.minDriverRating}`
+          : undefined,
+        // The lowest the passenger's stretch can cost; checked exactly below
+        filters.maxPricePerSeat !== undefined
+          ? sql`(${fullPrice} is null or (case when ${schema.driverRoute.pricingMode} = 'flat' then ${fullPrice} else least(${fullPrice}, coalesce(${schema.driverRoute.minimumFare}, 0)) end) <= ${filters.maxPricePerSeat})`
+          : undefined,
+      ),
+    )
+    .orderBy(
+      ...candidateOrderSql(query.sort ?? "bestMatch", {
+        pickupDistanceKm: pickupPosition.distanceKm,
+        dropoffDistanceKm: dropoffPosition.distanceKm,
+        minutesFromRequestedTime: window?.minutesOutside,
+        fullPrice,
+        driverAverageRating: driverRating.averageRating,
+      }),
+    )
+    .limit(query.limit * MATCH_CANDIDATES_PER_RESULT);
+
+  if (positions.length === 0) return [];
+
+  const trips = await db.query.trip.findMany({
+    where: inArray(
+      schema.trip.id,
+      positions.map((p) => p.id),
+    ),
+    with: {
+      driverRoute: {
+        columns: DRIVER_ROUTE_COLUMNS,
+        with: {
+          stops: {
+            orderBy: asc(schema.driverRouteStop.position),
+          },
+        },
+      },
+      driver: true,
+    },
+  });
+  const positionById = new Map(positions.map((p) => [p.id, p]));
+
+  const leg = {
+    pickupLat: query.pickup.lat,
+    pickupLng: query.pickup.lng,
+    dropoffLat: query.dropoff.lat,
+    dropoffLng: query.dropoff.lng,
+  };
+
+  const candidates = trips
+    .flatMap((t) => {
+      const position = positionById.get(t.id);
+      if (!position) return [];
+
+      // Stops only help if the pickup one comes before the dropoff one
+      let pickupStop = nearestStop(
+        t.driverRoute.stops,
+        query.pickup,
+        query.radiusKm,
+      );
+      let dropoffStop = nearestStop(
+        t.driverRoute.stops,
+        query.dropoff,
+        query.radiusKm,
+      );
+      if (
+        pickupStop &&
+        dropoffStop &&
+        pickupStop.stop.alongRouteKm >= dropoffStop.stop.alongRouteKm
+      ) {
+        pickupStop = null;
+        dropoffStop = null;
+      }
+
+      return {
+        ...t,
+        pickupDistanceKm: position.pickupDistanceKm,
+        dropoffDistanceKm: position.dropoffDistanceKm,
+        pickupAlongRouteKm: position.pickupAlongRouteKm,
+        dropoffAlongRouteKm: position.dropoffAlongRouteKm,
+        minutesFromRequestedTime: position.minutesFromRequestedTime,
+        driverRating: {
+          averageRating: position.driverAverageRating,
+          totalReviews: position.driverTotalReviews,
+        },
+        pickupStop,
+        dropoffStop,
+        pricePerSeat: legPricePerSeat(t, leg),
+      };
+    })
+    .filter(
+      (m) =>
+        filters.maxPricePerSeat === undefined ||
+        m.pricePerSeat === null ||
+        m.pricePerSeat <= filters.maxPricePerSeat,
+    );
+
+  const ranked = rankTrips(candidates, {
+    radiusKm: query.radiusKm,
+    sort: query.sort ?? "bestMatch",
+  });
+
+  // Seats free along the passenger's own stretch, counted a page at a time
+  // until enough trips have the seats asked for
+  const matchingTrips = [];
+  for (
+    let offset = 0;
+    offset < ranked.length && matchingTrips.length < query.limit;
+    offset += query.limit
+  ) {
+    const page = ranked.slice(offset, offset + query.limit);
+    const availableSeats = await getAvailableSeats(db, page, leg);
+
+    for (const t of page) {
+      const seatsAvailable = availableSeats.get(t.id) ?? 0;
+      if (seatsAvailable >= (filters.minSeats ?? 0)) {
+        matchingTrips.push({ ...t, seatsAvailable });
+      }
+    }
+  }
+
+  return matchingTrips.slice(0, query.limit);
+}
@@ -0,0 +1,121 @@
+import type { Database, Transaction } from "@app/db/client";
+import { and, asc, eq, lte } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { notify } from "./notifications";
+import { getSeatOccupancy, legSpan, lockTrip, seatsTakenOnLeg } from "./seats";
+
+/** How long a freed seat is held for a waitlisted passenger */
+export const WAITLIST_HOLD_MINUTES = 30;
+
+/**
+ * Offer freed seats on a trip to its waitlist.
+ *
+ * Expires lapsed offers first, then walks the queue in join order and offers
+ * a seat hold to every waiting passenger whose seat count still fits along
+ * their own leg of the route. Call this inside the transaction that freed the
+ * seats (cancellation, added capacity, ...) so the trip lock covers both and
+ * passengers are only told about holds that commit.
+ */
+export async function promoteWaitlist(tx: Transaction, tripId: string) {
+  const lockedTrip = await lockTrip(tx, tripId);
+  const now = new Date();
+
+  await tx
+    .update(schema.waitlistEntry)
+    .set({ status: "expired" })
+    .where(
+      and(
+        eq(schema.waitlistEntry.tripId, tripId),
+        eq(schema.waitlistEntry.status, "offered"),
+        lte(schema.waitlistEntry.offerExpiresAt, now),
+      ),
+    );
+
+  if (lockedTrip.status !== "scheduled" || lockedTrip.departureTime <= now) {
+    return [];
+  }
+
+  const occupancy =
+    (await getSeatOccupancy(tx, [lockedTrip])).get(tripId) ?? [];
+
+  const waiting = await tx.query.waitlistEntry.findMany({
+    where: and(
+      eq(schema.waitlistEntry.tripId, tripId),
+      eq(schema.waitlistEntry.status, "waiting"),
+    ),
+    orderBy: [asc(schema.waitlistEntry.createdAt)],
+  });
+
+  // Never hold a seat past departure
+  const holdUntil = new Date(
+    Math.min(
+      now.getTime() + WAITLIST_HOLD_MINUTES * 60 * 1000,
+      lockedTrip.departureTime.getTime(),
+    ),
+  );
+
+  const offered: schema.WaitlistEntry[] = [];
+
+  for (const entry of waiting) {
+    const availableSeats =
+      lockedTrip.seatsOffered -
+      seatsTakenOnLeg(occupancy, lockedTrip.routeGeometry, entry);
+    if (entry.seatsRequested > availableSeats) continue;
+
+    const [offeredEntry] = await tx
+      .update(schema.waitlistEntry)
+      .set({
+        status: "offered",
+        offeredAt: now,
+        offerExpiresAt: holdUntil,
+      })
+      .where(eq(schema.waitlistEntry.id, entry.id))
+      .returning();
+
+    if (offeredEntry) {
+      offered.push(offeredEntry);
+      // The hold takes its seats along the entry's leg
+      occupancy.push({
+        seats: entry.seatsRequested,
+        ...legSpan(lockedTrip.routeGeometry, entry),
+      });
+    }
+  }
+
+  const holdMinutes = Math.round((holdUntil.getTime() - now.getTime()) / 60000);
+  await notify(
+    tx,
+    offered.map((entry) => ({
+      userId: entry.passengerId,
+      type: "waitlist_offered" as const,
+      title: "A seat opened up for you",
+      body: `A seat is held for you on a trip you're waitlisted for. Accept it within ${holdMinutes} minutes before it goes to the next passenger.`,
+      link: "/my-requests",
+    })),
+  );
+
+  return offered;
+}
+
+/**
+ * Pass lapsed seat holds on to the next passengers in line, for every trip
+ * that has an expired offer. Safe to run from several processes at once.
+ */
+export async function processExpiredWaitlistOffers(db: Database) {
+  const expired = await db
+    .selectDistinct({ tripId: schema.waitlistEntry.tripId })
+    .from(schema.waitlistEntry)
+    .where(
+      and(
+        eq(schema.waitlistEntry.status, "offered"),
+        lte(schema.waitlistEntry.offerExpiresAt, new Date()),
+      ),
+    );
+
+  for (const { tripId } of expired) {
+    await db.transaction((tx) => promoteWaitlist(tx, tripId));
+  }
+
+  return expired.length;
+}
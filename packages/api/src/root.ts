@@ -1,16 +1,25 @@
 import { authRouter } from "./router/auth";
+import { bookingRouter } from "./router/booking";
 import { conversationRouter } from "./router/conversation";
+import { driverOfferRouter } from "./router/driver-offer";
 import { driversRouteRouter } from "./router/drivers-route";
+import { noShowRouter } from "./router/no-show";
+import { notificationRouter } from "./router/notification";
+import { passengerRouteRouter } from "./router/passenger-route";
 import { placesRouter } from "./router/places";
 import { reviewRouter } from "./router/review";
+import { rideRouter } from "./router/ride";
+import { rideRequestRouter } from "./router/ride-request";
 import { searchRouter } from "./router/search";
 import { statsRouter } from "./router/stats";
 import { tripRouter } from "./router/trip";
 import { userRouter } from "./router/user";
+import { waitlistRouter } from "./router/waitlist";
 import { createTRPCRouter } from "./trpc";
 
 export const appRouter = createTRPCRouter({
   auth: authRouter,
+  booking: bookingRouter,
   conversation: conversationRouter,
   places: placesRouter,
   review: reviewRouter,
@@ -19,6 +28,13 @@ export const appRouter = createTRPCRouter({
   trip: tripRouter,
   search: searchRouter,
   driversRoute: driversRouteRouter,
+  driverOffer: driverOfferRouter,
+  passengerRoute: passengerRouteRouter,
+  ride: rideRouter,
+  rideRequest: rideRequestRouter,
+  waitlist: waitlistRouter,
+  notification: notificationRouter,
+  noShow: noShowRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,359 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, asc, eq, inArray } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { legPricePerSeat } from "../lib/bookings";
+import { isLateCancellation } from "../lib/cancellation-policy";
+import { CHECK_IN_OPENS_MINUTES, checkInPassenger } from "../lib/check-in";
+import { bookingLeg } from "../lib/rebooking";
+import { respondToReschedule } from "../lib/reschedule";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { getAvailableSeats, lockTrip } from "../lib/seats";
+import { transitionBooking } from "../lib/trip-lifecycle";
+import { promoteWaitlist } from "../lib/waitlist";
+import { protectedProcedure } from "../trpc";
+
+export const bookingRouter = {
+  /**
+   * A booking the driver cancelled, with the alternative rides suggested for
+   * it (only for the passenger). Seats and prices are current; alternatives
+   * that have since left or filled up are dropped.
+   */
+  rebookingOptions: protectedProcedure
+    .input(z.object({ bookingId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const bookingData = await ctx.db.query.booking.findFirst({
+        where: and(
+          eq(schema.booking.id, input.bookingId),
+          eq(schema.booking.passengerId, userId),
+        ),
+        with: {
+          trip: {
+            with: {
+              driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+              driver: true,
+            },
+          },
+          rebookingSuggestions: {
+            orderBy: asc(schema.rebookingSuggestion.rank),
+            with: {
+              trip: {
+                with: {
+                  driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+                  driver: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!bookingData) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Booking not found or you don't have permission",
+        });
+      }
+
+      const leg = bookingLeg(bookingData, bookingData.trip.driverRoute);
+      const seatLeg = {
+        pickupLat: leg.pickup.lat,
+        pickupLng: leg.pickup.lng,
+        dropoffLat: leg.dropoff.lat,
+        dropoffLng: leg.dropoff.lng,
+      };
+
+      const now = new Date();
+      const upcoming = bookingData.rebookingSuggestions.filter(
+        (s) => s.trip.status === "scheduled" && s.trip.departureTime > now,
+      );
+      const availableSeats = await getAvailableSeats(
+        ctx.db,
+        upcoming.map((s) => s.trip),
+        seatLeg,
+      );
+
+      const requested = upcoming.length
+        ? await ctx.db.query.passengerRequest.findMany({
+            where: and(
+              eq(schema.passengerRequest.passengerId, userId),
+              inArray(
+                schema.passengerRequest.tripId,
+                upcoming.map((s) => s.tripId),
+              ),
+              inArray(schema.passengerRequest.status, ["pending", "accepted"]),
+            ),
+            columns: { tripId: true },
+          })
+        : [];
+      const requestedTripIds = new Set(requested.map((r) => r.tripId));
+
+      return {
+        booking: {
+          id: bookingData.id,
+          status: bookingData.status,
+          seatsBooked: bookingData.seatsBooked,
+          cancellationReason: bookingData.cancellationReason,
+          cancelledAt: bookingData.cancelledAt,
+          pickupPlaceId: bookingData.pickupPlaceId,
+          pickupName: bookingData.pickupName,
+          dropoffPlaceId: bookingData.dropoffPlaceId,
+          dropoffName: bookingData.dropoffName,
+          ...seatLeg,
+        },
+        trip: {
+          id: bookingData.trip.id,
+          fromName: bookingData.trip.driverRoute.fromName,
+          toName: bookingData.trip.driverRoute.toName,
+          departureTime: bookingData.trip.departureTime,
+          driver: {
+            id: bookingData.trip.driver.id,
+            name: bookingData.trip.driver.name,
+            image: bookingData.trip.driver.image,
+          },
+        },
+        alternatives: upcoming
+          .map((s) => ({
+            tripId: s.tripId,
+            fromName: s.trip.driverRoute.fromName,
+            toName: s.trip.driverRoute.toName,
+            departureTime: s.trip.departureTime,
+            pickupDistanceKm: s.pickupDistanceKm,
+            dropoffDistanceKm: s.dropoffDistanceKm,
+            pricePerSeat: legPricePerSeat(s.trip, seatLeg),
+            seatsAvailable: availableSeats.get(s.tripId) ?? 0,
+            requested: requestedTripIds.has(s.tripId),
+            driver: {
+              id: s.trip.driver.id,
+              name: s.trip.driver.name,
+              image: s.trip.driver.image,
+            },
+          }))
+          .filter(
+            (a) => a.requested || a.seatsAvailable >= bookingData.seatsBooked,
+          ),
+      };
+    }),
+
+  /**
+   * Cancel a confirmed booking (only by the passenger)
+   * Frees the seats; cancelling inside the route's free cancellation window
+   * is allowed but recorded as a late cancellation, unless the driver's
+   * departure change is still waiting for the passenger's answer, in which
+   * case the cancellation declines it
+   */
+  cancel: protectedProcedure
+    .input(
+      z.object({
+        bookingId: z.uuid(),
+        reason: z.string().trim().min(1).max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const bookingData = await ctx.db.query.booking.findFirst({
+        where: and(
+          eq(schema.booking.id, input.bookingId),
+          eq(schema.booking.passengerId, ctx.session.user.id),
+        ),
+        with: {
+          trip: {
+            with: {
+              driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+            },
+          },
+        },
+      });
+
+      if (!bookingData) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Booking not found or you don't have permission",
+        });
+      }
+
+      if (bookingData.status !== "confirmed") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Can only cancel confirmed bookings",
+        });
+      }
+
+      const now = new Date();
+
+      if (
+        bookingData.trip.status !== "scheduled" ||
+        bookingData.trip.departureTime <= now
+      ) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Cannot cancel a booking after the trip has departed",
+        });
+      }
+
+      const isLate = isLateCancellation(
+        bookingData.trip.departureTime,
+        bookingData.trip.driverRoute.freeCancellationHours,
+        now,
+      );
+
+      return ctx.db.transaction(async (tx) => {
+        const [pendingReschedule] = await tx
+          .select({ id: schema.rescheduleConfirmation.id })
+          .from(schema.rescheduleConfirmation)
+          .where(
+            and(
+              eq(schema.rescheduleConfirmation.bookingId, input.bookingId),
+              eq(schema.rescheduleConfirmation.status, "pending"),
+            ),
+          )
+          .for("update");
+
+        const cancelledBooking = await transitionBooking(
+          tx,
+          input.bookingId,
+          "cancelled_by_passenger",
+          { actorId: ctx.session.user.id, reason: input.reason },
+          { isLateCancellation: isLate && !pendingReschedule },
+        );
+
+        if (pendingReschedule) {
+          await tx
+            .update(schema.rescheduleConfirmation)
+            .set({ status: "declined", respondedAt: now })
+            .where(eq(schema.rescheduleConfirmation.id, pendingReschedule.id));
+        }
+
+        // Close the originating request so the passenger can request again
+        if (cancelledBooking.passengerRequestId) {
+          await tx
+            .update(schema.passengerRequest)
+            .set({ status: "cancelled" })
+            .where(
+              eq(
+                schema.passengerRequest.id,
+                cancelledBooking.passengerRequestId,
+              ),
+            );
+        }
+
+        // Offer the freed seats to the waitlist
+        await promoteWaitlist(tx, cancelledBooking.tripId);
+
+        return cancelledBooking;
+      });
+    }),
+
+  /**
+   * Answer the driver's departure change on a booking: keep the seat at the
+   * new time, or cancel without penalty
+   */
+  respondToReschedule: protectedProcedure
+    .input(
+      z.object({
+        bookingId: z.uuid(),
+        accept: z.boolean(),
+      }),
+    )
+    .mutation(({ ctx, input }) => {
+      return ctx.db.transaction((tx) =>
+        respondToReschedule(
+          tx,
+          input.bookingId,
+          ctx.session.user.id,
+          input.accept,
+        ),
+      );
+    }),
+
+  /**
+   * The passengers booked on a trip and whether they have boarded (only for
+   * the driver)
+   */
+  checkInRoster: protectedProcedure
+    .input(z.object({ tripId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const tripRecord = await ctx.db.query.trip.findFirst({
+        where: and(
+          eq(schema.trip.id, input.tripId),
+          eq(schema.trip.driverId, ctx.session.user.id),
+        ),
+        with: {
+          bookings: {
+            where: inArray(schema.booking.status, ["confirmed", "completed"]),
+            orderBy: [asc(schema.booking.createdAt)],
+            with: {
+              passenger: true,
+              noShowReport: true,
+            },
+          },
+        },
+      });
+
+      if (!tripRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Trip not found or you don't have permission",
+        });
+      }
+
+      return {
+        tripStatus: tripRecord.status,
+        checkInOpensAt: new Date(
+          tripRecord.departureTime.getTime() - CHECK_IN_OPENS_MINUTES * 60_000,
+        ),
+        passengers: tripRecord.bookings.map((b) => ({
+          bookingId: b.id,
+          seatsBooked: b.seatsBooked,
+          pickupName: b.pickupName,
+          boardedAt: b.boardedAt,
+          noShowReport: b.noShowReport && {
+            id: b.noShowReport.id,
+            status: b.noShowReport.status,
+            contestDeadline: b.noShowReport.contestDeadline,
+          },
+          passenger: {
+            id: b.passenger.id,
+            name: b.passenger.name,
+            image: b.passenger.image,
+          },
+        })),
+      };
+    }),
+
+  /**
+   * Check a passenger in with the PIN they show, or the payload of their QR
+   * code (only by the driver)
+   */
+  checkIn: protectedProcedure
+    .input(
+      z.object({
+        tripId: z.uuid(),
+        code: z.string().min(1).max(200),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const tripRecord = await ctx.db.query.trip.findFirst({
+        where: and(
+          eq(schema.trip.id, input.tripId),
+          eq(schema.trip.driverId, ctx.session.user.id),
+        ),
+      });
+
+      if (!tripRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Trip not found or you don't have permission",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const lockedTrip = await lockTrip(tx, input.tripId);
+        return checkInPassenger(tx, lockedTrip, input.code);
+      });
+    }),
+} satisfies TRPCRouterRecord;
@@ -5,6 +5,7 @@ import { z } from "zod/v4";
 import { and, desc, eq, isNull, ne } from "@app/db";
 import * as schema from "@app/db/schema";
 
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
 import { protectedProcedure } from "../trpc";
 
 export interface ConversationItem {
@@ -223,7 +224,7 @@ export const conversationRouter = {
         trip: {
           with: {
             driver: true,
-            driverRoute: true,
+            driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
           },
         },
         conversations: {
@@ -242,7 +243,7 @@ export const conversationRouter = {
     const driverTrips = await ctx.db.query.trip.findMany({
       where: eq(schema.trip.driverId, userId),
       with: {
-        driverRoute: true,
+        driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
         bookings: {
           with: {
             passenger: true,
@@ -327,7 +328,7 @@ export const conversationRouter = {
           trip: {
             with: {
               driver: true,
-              driverRoute: true,
+              driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
             },
           },
           passenger: true,
@@ -0,0 +1,457 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, desc, eq, ne } from "@app/db";
+import * as schema from "@app/db/schema";
+import { CreateDriverOfferSchema } from "@app/db/schema";
+
+import { bookWithoutRequest } from "../lib/bookings";
+import { notify } from "../lib/notifications";
+import {
+  PASSENGER_ROUTE_COLUMNS,
+  straightLineRoute,
+} from "../lib/route-geometry";
+import { protectedProcedure } from "../trpc";
+
+export const driverOfferRouter = {
+  /**
+   * Offer to drive a passenger's "ride wanted" listing
+   */
+  create: protectedProcedure
+    .input(CreateDriverOfferSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const listing = await ctx.db.query.passengerRoute.findFirst({
+        where: eq(schema.passengerRoute.id, input.passengerRouteId),
+      });
+
+      if (!listing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Listing not found",
+        });
+      }
+
+      if (listing.passengerId === userId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You cannot make an offer on your own listing",
+        });
+      }
+
+      const now = new Date();
+
+      if (listing.status !== "active" || listing.departureTime <= now) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "This listing is no longer accepting offers",
+        });
+      }
+
+      if (input.seatsOffered < listing.seatsNeeded) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `This passenger needs ${listing.seatsNeeded} seats`,
+        });
+      }
+
+      const departureTime =
+        input.proposedDepartureTime ?? listing.departureTime;
+
+      if (departureTime <= now) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Departure time must be in the future",
+        });
+      }
+
+      if (input.expiresAt && input.expiresAt <= now) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Response deadline must be in the future",
+        });
+      }
+
+      // Only one open offer per driver per listing
+      const existingOffer = await ctx.db.query.driverOffer.findFirst({
+        where: and(
+          eq(schema.driverOffer.passengerRouteId, input.passengerRouteId),
+          eq(schema.driverOffer.driverId, userId),
+          eq(schema.driverOffer.status, "pending"),
+        ),
+      });
+
+      if (existingOffer) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "You already have an open offer on this listing",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [newOffer] = await tx
+          .insert(schema.driverOffer)
+          .values({
+            ...input,
+            driverId: userId,
+          })
+          .returning();
+
+        if (!newOffer) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create offer",
+          });
+        }
+
+        await notify(tx, [
+          {
+            userId: listing.passengerId,
+            type: "offer_received",
+            title: "You received a ride offer",
+            body: `A driver offered to take you from ${listing.fromName} to ${listing.toName}.`,
+            link: null,
+          },
+        ]);
+
+        return newOffer;
+      });
+    }),
+
+  /**
+   * Get the offers on one of the current user's listings
+   */
+  forListing: protectedProcedure
+    .input(z.object({ passengerRouteId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const listing = await ctx.db.query.passengerRoute.findFirst({
+        where: and(
+          eq(schema.passengerRoute.id, input.passengerRouteId),
+          eq(schema.passengerRoute.passengerId, ctx.session.user.id),
+        ),
+      });
+
+      if (!listing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Listing not found or you don't have permission",
+        });
+      }
+
+      return ctx.db.query.driverOffer.findMany({
+        where: eq(schema.driverOffer.passengerRouteId, input.passengerRouteId),
+        orderBy: [desc(schema.driverOffer.createdAt)],
+        with: {
+          driver: true,
+        },
+      });
+    }),
+
+  /**
+   * Get all offers made by the current user
+   */
+  myOffers: protectedProcedure.query(({ ctx }) => {
+    return ctx.db.query.driverOffer.findMany({
+      where: eq(schema.driverOffer.driverId, ctx.session.user.id),
+      orderBy: [desc(schema.driverOffer.createdAt)],
+      with: {
+        passengerRoute: {
+          with: {
+            passenger: true,
+          },
+        },
+      },
+    });
+  }),
+
+  /**
+   * Accept an offer on the current user's listing
+   * Creates the driver route, its trip, the booking (with an accepted request,
+   * so it shows on My Requests) and the conversation, marks the listing
+   * fulfilled and rejects the competing offers
+   */
+  accept: protectedProcedure
+    .input(z.object({ offerId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      return ctx.db.transaction(async (tx) => {
+        // Lock the offer so it can't be accepted twice concurrently
+        const [offer] = await tx
+          .select()
+          .from(schema.driverOffer)
+          .where(eq(schema.driverOffer.id, input.offerId))
+          .for("update");
+
+        if (!offer) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Offer not found",
+          });
+        }
+
+        // Lock the listing so only one of its offers can be accepted
+        const [listing] = await tx
+          .select()
+          .from(schema.passengerRoute)
+          .where(eq(schema.passengerRoute.id, offer.passengerRouteId))
+          .for("update");
+
+        if (listing?.passengerId !== userId) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You don't have permission to accept this offer",
+          });
+        }
+
+        const now = new Date();
+
+        if (
+          offer.status !== "pending" ||
+          (offer.expiresAt && offer.expiresAt <= now)
+        ) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "This offer is no longer available",
+          });
+        }
+
+        if (listing.status !== "active") {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "This listing is no longer active",
+          });
+        }
+
+        const departureTime =
+          offer.proposedDepartureTime ?? listing.departureTime;
+
+        if (departureTime <= now) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "This offer's departure time has passed",
+          });
+        }
+
+        // The driver's route runs from the pickup to the dropoff, falling
+        // back to the listing's own origin and destination
+        const from = {
+          placeId: offer.pickupPlaceId ?? listing.fromPlaceId,
+          name: offer.pickupName ?? listing.fromName,
+          address: offer.pickupPlaceId ? null : listing.fromAddress,
+          lat: offer.pickupLat ?? listing.fromLat,
+          lng: offer.pickupLng ?? listing.fromLng,
+        };
+        const to = {
+          placeId: offer.dropoffPlaceId ?? listing.toPlaceId,
+          name: offer.dropoffName ?? listing.toName,
+          address: offer.dropoffPlaceId ? null : listing.toAddress,
+          lat: offer.dropoffLat ?? listing.toLat,
+          lng: offer.dropoffLng ?? listing.toLng,
+        };
+        const fallbackRoute = straightLineRoute(from, to);
+
+        const [newRoute] = await tx
+          .insert(schema.driverRoute)
+          .values({
+            driverId: offer.driverId,
+            fromPlaceId: from.placeId,
+            fromName: from.name,
+            fromAddress: from.address,
+            fromLat: from.lat,
+            fromLng: from.lng,
+            toPlaceId: to.placeId,
+            toName: to.name,
+            toAddress: to.address,
+            toLat: to.lat,
+            toLng: to.lng,
+            routeGeometry: offer.routeGeometry ?? fallbackRoute.geometry,
+            distanceKm: offer.distanceKm ?? fallbackRoute.distanceKm,
+            durationMinutes: offer.durationMinutes,
+            seatsOffered: offer.seatsOffered,
+            pricePerSeat: offer.proposedPricePerSeat,
+            luggageSize: listing.luggageSize,
+            allowsBikes: listing.hasBike,
+            allowsSkis: listing.hasSkis,
+            allowsPets: listing.hasPet,
+            description: offer.message,
+          })
+          .returning();
+
+        if (!newRoute) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create driver route",
+          });
+        }
+
+        const [newTrip] = await tx
+          .insert(schema.trip)
+          .values({
+            driverRouteId: newRoute.id,
+            driverId: offer.driverId,
+            departureTime,
+            driverOfferId: offer.id,
+          })
+          .returning();
+
+        if (!newTrip) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create trip",
+          });
+        }
+
+        const { booking: newBooking, conversation: newConversation } =
+          await bookWithoutRequest(
+            tx,
+            newTrip,
+            {
+              passengerId: listing.passengerId,
+              pickupPlaceId: from.placeId,
+              pickupName: from.name,
+              pickupLat: from.lat,
+              pickupLng: from.lng,
+              dropoffPlaceId: to.placeId,
+              dropoffName: to.name,
+              dropoffLat: to.lat,
+              dropoffLng: to.lng,
+              seatsRequested: listing.seatsNeeded,
+            },
+            offer.proposedPricePerSeat,
+          );
+
+        const [acceptedOffer] = await tx
+          .update(schema.driverOffer)
+          .set({ status: "accepted" })
+          .where(eq(schema.driverOffer.id, offer.id))
+          .returning();
+
+        await tx
+          .update(schema.passengerRoute)
+          .set({ status: "fulfilled" })
+          .where(eq(schema.passengerRoute.id, listing.id));
+
+        const rejectedOffers = await tx
+          .update(schema.driverOffer)
+          .set({ status: "rejected" })
+          .where(
+            and(
+              eq(schema.driverOffer.passengerRouteId, listing.id),
+              eq(schema.driverOffer.status, "pending"),
+              ne(schema.driverOffer.id, offer.id),
+            ),
+          )
+          .returning();
+
+        const ride = `${listing.fromName} → ${listing.toName}`;
+
+        await notify(tx, [
+          {
+            userId: offer.driverId,
+            type: "offer_accepted",
+            title: "Your ride offer was accepted",
+            body: `Your offer for ${ride} was accepted and the trip is booked.`,
+            link: newConversation ? `/messages/${newConversation.id}` : null,
+          },
+          ...rejectedOffers.map((rejected) => ({
+            userId: rejected.driverId,
+            type: "offer_rejected" as const,
+            title: "Your ride offer was declined",
+            body: `The passenger chose another driver for ${ride}.`,
+            link: null,
+          })),
+        ]);
+
+        return {
+          offer: acceptedOffer ?? offer,
+          tripId: newTrip.id,
+          bookingId: newBooking.id,
+          conversationId: newConversation?.id ?? null,
+        };
+      });
+    }),
+
+  /**
+   * Reject an offer on the current user's listing
+   */
+  reject: protectedProcedure
+    .input(z.object({ offerId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const offer = await ctx.db.query.driverOffer.findFirst({
+        where: eq(schema.driverOffer.id, input.offerId),
+        with: {
+          passengerRoute: { columns: PASSENGER_ROUTE_COLUMNS },
+        },
+      });
+
+      if (offer?.passengerRoute.passengerId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Offer not found or you don't have permission",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [rejectedOffer] = await tx
+          .update(schema.driverOffer)
+          .set({ status: "rejected" })
+          .where(
+            and(
+              eq(schema.driverOffer.id, input.offerId),
+              eq(schema.driverOffer.status, "pending"),
+            ),
+          )
+          .returning();
+
+        if (!rejectedOffer) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "Can only reject pending offers",
+          });
+        }
+
+        await notify(tx, [
+          {
+            userId: rejectedOffer.driverId,
+            type: "offer_rejected",
+            title: "Your ride offer was declined",
+            body: `The passenger declined your offer for ${offer.passengerRoute.fromName} → ${offer.passengerRoute.toName}.`,
+            link: null,
+          },
+        ]);
+
+        return rejectedOffer;
+      });
+    }),
+
+  /**
+   * Withdraw a pending offer (only by the driver who made it)
+   */
+  cancel: protectedProcedure
+    .input(z.object({ offerId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [cancelledOffer] = await ctx.db
+        .update(schema.driverOffer)
+        .set({ status: "cancelled" })
+        .where(
+          and(
+            eq(schema.driverOffer.id, input.offerId),
+            eq(schema.driverOffer.driverId, ctx.session.user.id),
+            eq(schema.driverOffer.status, "pending"),
+          ),
+        )
+        .returning();
+
+      if (!cancelledOffer) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No pending offer found",
+        });
+      }
+
+      return cancelledOffer;
+    }),
+} satisfies TRPCRouterRecord;
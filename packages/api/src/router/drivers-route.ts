@@ -2,10 +2,28 @@ import type { TRPCRouterRecord } from "@trpc/server";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { and, desc, eq, gte } from "@app/db";
+import type { Database } from "@app/db/client";
+import { and, asc, desc, eq, gte, isNull } from "@app/db";
 import * as schema from "@app/db/schema";
-import { CreateDriverRouteSchema } from "@app/db/schema";
-
+import {
+  CreateDriverRouteSchema,
+  DriverRouteStopInputSchema,
+} from "@app/db/schema";
+
+import { confirmRequest, legPricePerSeat } from "../lib/bookings";
+import { localTime } from "../lib/recurrence";
+import {
+  applyOccurrenceOverride,
+  assertValidRecurrence,
+  cancelOccurrences,
+  isOccurrenceDate,
+  materializeRouteTrips,
+  regenerateRouteTrips,
+} from "../lib/recurring-trips";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { getSeatsTaken, lockTrip } from "../lib/seats";
+import { setRouteStops } from "../lib/stops";
+import { promoteWaitlist } from "../lib/waitlist";
 import { protectedProcedure, publicProcedure } from "../trpc";
 
 const routeGeometrySchema = z.object({
@@ -13,6 +31,41 @@ const routeGeometrySchema = z.object({
   coordinates: z.array(z.tuple([z.number(), z.number()])),
 });
 
+const occurrenceDateSchema = z.iso.date();
+const baseTimeSchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/);
+
+/**
+ * Load one of the user's routes, which must be recurring
+ */
+async function findRecurringRoute(
+  db: Database,
+  driverRouteId: string,
+  userId: string,
+) {
+  const route = await db.query.driverRoute.findFirst({
+    where: and(
+      eq(schema.driverRoute.id, driverRouteId),
+      eq(schema.driverRoute.driverId, userId),
+    ),
+  });
+
+  if (!route) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Driver route not found or you don't have permission",
+    });
+  }
+
+  if (!route.rrule) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "This route doesn't repeat",
+    });
+  }
+
+  return route;
+}
+
 export const driversRouteRouter = {
   tripsSearch: publicProcedure
     .input(
@@ -50,6 +103,7 @@ export const driversRouteRouter = {
     .query(({ ctx, input }) => {
       return ctx.db.query.driverRoute.findFirst({
         where: eq(schema.driverRoute.id, input.id),
+        columns: DRIVER_ROUTE_COLUMNS,
         with: {
           driver: true,
           trips: {
@@ -74,6 +128,7 @@ export const driversRouteRouter = {
     return ctx.db.query.driverRoute.findMany({
       where: eq(schema.driverRoute.driverId, ctx.session.user.id),
       orderBy: [desc(schema.driverRoute.createdAt)],
+      columns: DRIVER_ROUTE_COLUMNS,
       with: {
         trips: {
           orderBy: [desc(schema.trip.departureTime)],
@@ -91,47 +146,169 @@ export const driversRouteRouter = {
   }),
 
   /**
-   * Create a new driver route with an initial trip
+   * Create a new driver route with an initial trip.
+   * Recurring routes (with an rrule) get their upcoming occurrences instead,
+   * starting from the given departure unless validFrom/baseTime say otherwise.
+   * With a return departure, a reversed route and trip are created for the
+   * way back and linked with the outbound ones both ways. Intermediate stops
+   * are placed along the route geometry, and visited in reverse on the way
+   * back.
    */
   create: protectedProcedure
     .input(
       CreateDriverRouteSchema.extend({
         departureTime: z.coerce.date(),
+        returnDepartureTime: z.coerce.date().optional(),
+        stops: z.array(DriverRouteStopInputSchema).max(10).default([]),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const { departureTime, ...routeData } = input;
+      const { departureTime, returnDepartureTime, stops, ...routeData } = input;
 
-      const [newRoute] = await ctx.db
-        .insert(schema.driverRoute)
-        .values({
-          ...routeData,
-          driverId: ctx.session.user.id,
-        })
-        .returning();
+      if (returnDepartureTime) {
+        if (routeData.rrule) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Recurring routes can't have a return trip",
+          });
+        }
 
-      if (!newRoute) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to create driver route",
+        if (returnDepartureTime <= departureTime) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "The return trip must leave after the outbound trip",
+          });
+        }
+      }
+
+      if (routeData.rrule) {
+        routeData.timezone ??= "UTC";
+        routeData.validFrom ??= departureTime;
+        routeData.baseTime ??= localTime(departureTime, routeData.timezone);
+        assertValidRecurrence({
+          rrule: routeData.rrule,
+          baseTime: routeData.baseTime,
+          timezone: routeData.timezone,
         });
       }
 
-      // Create initial trip for the route
-      const [newTrip] = await ctx.db
-        .insert(schema.trip)
-        .values({
-          driverRouteId: newRoute.id,
-          driverId: ctx.session.user.id,
-          departureTime,
-        })
-        .returning();
+      return ctx.db.transaction(async (tx) => {
+        // The way back: same settings, ends and geometry swapped
+        let returnRoute: schema.DriverRoute | undefined;
+        let returnTrip: schema.Trip | undefined;
+
+        if (returnDepartureTime) {
+          [returnRoute] = await tx
+            .insert(schema.driverRoute)
+            .values({
+              ...routeData,
+              driverId: ctx.session.user.id,
+              fromPlaceId: routeData.toPlaceId,
+              fromName: routeData.toName,
+              fromAddress: routeData.toAddress,
+              fromLat: routeData.toLat,
+              fromLng: routeData.toLng,
+              toPlaceId: routeData.fromPlaceId,
+              toName: routeData.fromName,
+              toAddress: routeData.fromAddress,
+              toLat: routeData.fromLat,
+              toLng: routeData.fromLng,
+              routeGeometry: {
+                type: "LineString",
+                coordinates: [...routeData.routeGeometry.coordinates].reverse(),
+              },
+            })
+            .returning();
+
+          if (!returnRoute) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: "Failed to create return route",
+            });
+          }
+
+          // Offsets were given for the outbound direction, so re-estimate
+          await setRouteStops(
+            tx,
+            returnRoute,
+            stops.map((stop) => ({ ...stop, offsetMinutes: undefined })),
+          );
+
+          [returnTrip] = await tx
+            .insert(schema.trip)
+            .values({
+              driverRouteId: returnRoute.id,
+              driverId: ctx.session.user.id,
+              departureTime: returnDepartureTime,
+            })
+            .returning();
+        }
+
+        const [newRoute] = await tx
+          .insert(schema.driverRoute)
+          .values({
+            ...routeData,
+            driverId: ctx.session.user.id,
+            returnRouteId: returnRoute?.id,
+          })
+          .returning();
+
+        if (!newRoute) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create driver route",
+          });
+        }
+
+        await setRouteStops(tx, newRoute, stops);
+
+        if (newRoute.rrule) {
+          const trips = await materializeRouteTrips(tx, newRoute);
+          const [firstTrip] = trips.sort(
+            (a, b) => a.departureTime.getTime() - b.departureTime.getTime(),
+          );
+
+          if (!firstTrip) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "The recurrence has no upcoming dates",
+            });
+          }
+
+          return { route: newRoute, trip: firstTrip, returnTrip: null };
+        }
 
-      return { route: newRoute, trip: newTrip };
+        // Create initial trip for the route
+        const [newTrip] = await tx
+          .insert(schema.trip)
+          .values({
+            driverRouteId: newRoute.id,
+            driverId: ctx.session.user.id,
+            departureTime,
+            returnTripId: returnTrip?.id,
+          })
+          .returning();
+
+        if (newTrip && returnTrip) {
+          [returnTrip] = await tx
+            .update(schema.trip)
+            .set({ outboundTripId: newTrip.id })
+            .where(eq(schema.trip.id, returnTrip.id))
+            .returning();
+        }
+
+        return {
+          route: newRoute,
+          trip: newTrip,
+          returnTrip: returnTrip ?? null,
+        };
+      });
     }),
 
   /**
    * Update a driver route
+   * Throws CONFLICT when fewer seats are offered than passengers already
+   * hold on an upcoming trip.
    */
   update: protectedProcedure
     .input(
@@ -160,6 +337,22 @@ export const driversRouteRouter = {
           // Capacity & pricing
           seatsOffered: z.number().int().min(1).max(10).optional(),
           pricePerSeat: z.number().int().min(0).optional(),
+          pricingMode: z.enum(["flat", "distance"]).optional(),
+          minimumFare: z.number().int().min(0).nullable().optional(),
+          freeCancellationHours: z.number().int().min(0).max(168).optional(),
+          requestResponseHours: z
+            .number()
+            .int()
+            .min(1)
+            .max(168)
+            .nullable()
+            .optional(),
+
+          // Instant booking rules
+          instantBook: z.boolean().optional(),
+          instantBookMinRating: z.number().min(1).max(5).nullable().optional(),
+          instantBookRequireVerifiedPhone: z.boolean().optional(),
+          instantBookMaxDetourKm: z.number().min(0).nullable().optional(),
 
           // Vehicle amenities
           luggageSize: z.enum(["small", "medium", "large"]).optional(),
@@ -170,11 +363,15 @@ export const driversRouteRouter = {
           hasAC: z.boolean().optional(),
           hasPhoneCharging: z.boolean().optional(),
 
-          // Recurrence
-          rrule: z.string().optional(),
-          baseTime: z.string().optional(),
+          // Recurrence (a null rrule stops the route recurring)
+          rrule: z.string().nullable().optional(),
+          baseTime: z.string().nullable().optional(),
           validFrom: z.coerce.date().optional(),
-          validUntil: z.coerce.date().optional(),
+          validUntil: z.coerce.date().nullable().optional(),
+          timezone: z.string().min(1).max(64).optional(),
+
+          // Intermediate stops (replaces the existing ones)
+          stops: z.array(DriverRouteStopInputSchema).max(10).optional(),
 
           // Description
           description: z.string().max(1000).optional(),
@@ -196,13 +393,116 @@ export const driversRouteRouter = {
         });
       }
 
-      const [updatedRoute] = await ctx.db
-        .update(schema.driverRoute)
-        .set(input.data)
-        .where(eq(schema.driverRoute.id, input.id))
-        .returning();
+      const recurrenceChanged = (
+        ["rrule", "baseTime", "validFrom", "validUntil", "timezone"] as const
+      ).some((key) => input.data[key] !== undefined);
+
+      const rrule =
+        input.data.rrule === undefined ? existingRoute.rrule : input.data.rrule;
+      if (recurrenceChanged && rrule) {
+        assertValidRecurrence({
+          rrule,
+          baseTime:
+            input.data.baseTime === undefined
+              ? existingRoute.baseTime
+              : input.data.baseTime,
+          timezone: input.data.timezone ?? existingRoute.timezone,
+        });
+      }
+
+      const { stops, ...routeUpdate } = input.data;
+
+      return ctx.db.transaction(async (tx) => {
+        // Seats can't drop below what passengers already hold on upcoming
+        // trips that use the route's seat count
+        if (
+          input.data.seatsOffered !== undefined &&
+          input.data.seatsOffered < existingRoute.seatsOffered
+        ) {
+          const upcomingTrips = await tx.query.trip.findMany({
+            where: and(
+              eq(schema.trip.driverRouteId, input.id),
+              eq(schema.trip.status, "scheduled"),
+              isNull(schema.trip.seatsOffered),
+            ),
+            columns: { id: true },
+          });
+
+          const lockedTrips = [];
+          for (const upcomingTrip of upcomingTrips) {
+            lockedTrips.push(await lockTrip(tx, upcomingTrip.id));
+          }
+          const seatsTaken = Math.max(
+            0,
+            ...(await getSeatsTaken(tx, lockedTrips)).values(),
+          );
+
+          if (input.data.seatsOffered < seatsTaken) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: `${seatsTaken} seats are already taken on an upcoming trip`,
+            });
+          }
+        }
+
+        const [updatedRoute] = await tx
+          .update(schema.driverRoute)
+          .set(routeUpdate)
+          .where(eq(schema.driverRoute.id, input.id))
+          .returning();
+
+        // A new geometry moves existing stops along it, so place them again
+        if (
+          updatedRoute &&
+          (stops !== undefined ||
+            routeUpdate.routeGeometry !== undefined ||
+            routeUpdate.durationMinutes !== undefined)
+        ) {
+          const existingStops = await tx.query.driverRouteStop.findMany({
+            where: eq(schema.driverRouteStop.driverRouteId, input.id),
+            orderBy: asc(schema.driverRouteStop.position),
+          });
+
+          await setRouteStops(
+            tx,
+            updatedRoute,
+            stops ??
+              existingStops.map((stop) => ({
+                placeId: stop.placeId,
+                name: stop.name,
+                address: stop.address ?? undefined,
+                lat: stop.lat,
+                lng: stop.lng,
+              })),
+          );
+        }
+
+        // Future occurrences follow the new rule; booked ones stay put
+        if (recurrenceChanged && updatedRoute) {
+          await regenerateRouteTrips(tx, updatedRoute);
+        }
+
+        // Added seats go to the waitlists of upcoming trips
+        if (
+          input.data.seatsOffered !== undefined &&
+          input.data.seatsOffered > existingRoute.seatsOffered
+        ) {
+          const upcomingTrips = await tx.query.trip.findMany({
+            where: and(
+              eq(schema.trip.driverRouteId, input.id),
+              eq(schema.trip.status, "scheduled"),
+              gte(schema.trip.departureTime, new Date()),
+            ),
+            columns: { id: true },
+          });
 
-      return updatedRoute;
+          for (const upcomingTrip of upcomingTrips) {
+            await promoteWaitlist(tx, upcomingTrip.id);
+          }
+        }
+
+        return updatedRoute;
+      });
     }),
 
   /**
@@ -245,6 +545,264 @@ export const driversRouteRouter = {
       return { success: true };
     }),
 
+  /**
+   * Get the skipped dates and per-occurrence overrides of a recurring route
+   */
+  recurrence: protectedProcedure
+    .input(z.object({ driverRouteId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      await findRecurringRoute(
+        ctx.db,
+        input.driverRouteId,
+        ctx.session.user.id,
+      );
+
+      const [exceptions, overrides] = await Promise.all([
+        ctx.db.query.driverRouteException.findMany({
+          where: eq(
+            schema.driverRouteException.driverRouteId,
+            input.driverRouteId,
+          ),
+          orderBy: [asc(schema.driverRouteException.startDate)],
+        }),
+        ctx.db.query.driverRouteOverride.findMany({
+          where: eq(
+            schema.driverRouteOverride.driverRouteId,
+            input.driverRouteId,
+          ),
+          orderBy: [asc(schema.driverRouteOverride.occurrenceDate)],
+        }),
+      ]);
+
+      return { exceptions, overrides };
+    }),
+
+  /**
+   * Skip a range of dates on a recurring route (e.g. a holiday).
+   * Occurrences already generated in the range are cancelled and their
+   * passengers notified.
+   */
+  addException: protectedProcedure
+    .input(
+      z.object({
+        driverRouteId: z.uuid(),
+        startDate: occurrenceDateSchema,
+        endDate: occurrenceDateSchema,
+        reason: z.string().max(256).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const route = await findRecurringRoute(
+        ctx.db,
+        input.driverRouteId,
+        ctx.session.user.id,
+      );
+
+      if (input.endDate < input.startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "End date must be on or after the start date",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [exception] = await tx
+          .insert(schema.driverRouteException)
+          .values(input)
+          .returning();
+
+        const cancelledTrips = await cancelOccurrences(
+          tx,
+          route,
+          input.startDate,
+          input.endDate,
+        );
+
+        return { exception, cancelledTrips: cancelledTrips.length };
+      });
+    }),
+
+  /**
+   * Cancel a single occurrence of a recurring route without touching the
+   * others. Booked passengers are notified.
+   */
+  cancelOccurrence: protectedProcedure
+    .input(
+      z.object({
+        driverRouteId: z.uuid(),
+        occurrenceDate: occurrenceDateSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const route = await findRecurringRoute(
+        ctx.db,
+        input.driverRouteId,
+        ctx.session.user.id,
+      );
+
+      if (!isOccurrenceDate(route, input.occurrenceDate)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The route doesn't run on that date",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [exception] = await tx
+          .insert(schema.driverRouteException)
+          .values({
+            driverRouteId: route.id,
+            startDate: input.occurrenceDate,
+            endDate: input.occurrenceDate,
+          })
+          .returning();
+
+        const cancelledTrips = await cancelOccurrences(
+          tx,
+          route,
+          input.occurrenceDate,
+          input.occurrenceDate,
+        );
+
+        return { exception, cancelledTrips: cancelledTrips.length };
+      });
+    }),
+
+  /**
+   * Stop skipping a range of dates. Occurrences that were already cancelled
+   * stay cancelled; dates not generated yet run again.
+   */
+  removeException: protectedProcedure
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const exception = await ctx.db.query.driverRouteException.findFirst({
+        where: eq(schema.driverRouteException.id, input.id),
+        with: {
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+        },
+      });
+
+      if (exception?.driverRoute.driverId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Exception not found or you don't have permission",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        await tx
+          .delete(schema.driverRouteException)
+          .where(eq(schema.driverRouteException.id, input.id));
+
+        await materializeRouteTrips(tx, exception.driverRoute);
+
+        return { success: true };
+      });
+    }),
+
+  /**
+   * Change the departure time, seats or price of one occurrence of a
+   * recurring route. Fields left out use the route's settings.
+   */
+  setOverride: protectedProcedure
+    .input(
+      z.object({
+        driverRouteId: z.uuid(),
+        occurrenceDate: occurrenceDateSchema,
+        baseTime: baseTimeSchema.nullable().optional(),
+        seatsOffered: z.number().int().min(1).max(10).nullable().optional(),
+        pricePerSeat: z.number().int().min(0).nullable().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const route = await findRecurringRoute(
+        ctx.db,
+        input.driverRouteId,
+        ctx.session.user.id,
+      );
+
+      if (!isOccurrenceDate(route, input.occurrenceDate)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The route doesn't run on that date",
+        });
+      }
+
+      const values = {
+        baseTime: input.baseTime ?? null,
+        seatsOffered: input.seatsOffered ?? null,
+        pricePerSeat: input.pricePerSeat ?? null,
+      };
+
+      return ctx.db.transaction(async (tx) => {
+        const [override] = await tx
+          .insert(schema.driverRouteOverride)
+          .values({
+            driverRouteId: route.id,
+            occurrenceDate: input.occurrenceDate,
+            ...values,
+          })
+          .onConflictDoUpdate({
+            target: [
+              schema.driverRouteOverride.driverRouteId,
+              schema.driverRouteOverride.occurrenceDate,
+            ],
+            set: values,
+          })
+          .returning();
+
+        const updatedTrip = await applyOccurrenceOverride(
+          tx,
+          route,
+          input.occurrenceDate,
+          values,
+        );
+
+        return { override, trip: updatedTrip };
+      });
+    }),
+
+  /**
+   * Put an overridden occurrence back on the route's settings
+   */
+  removeOverride: protectedProcedure
+    .input(
+      z.object({
+        driverRouteId: z.uuid(),
+        occurrenceDate: occurrenceDateSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const route = await findRecurringRoute(
+        ctx.db,
+        input.driverRouteId,
+        ctx.session.user.id,
+      );
+
+      return ctx.db.transaction(async (tx) => {
+        await tx
+          .delete(schema.driverRouteOverride)
+          .where(
+            and(
+              eq(schema.driverRouteOverride.driverRouteId, route.id),
+              eq(
+                schema.driverRouteOverride.occurrenceDate,
+                input.occurrenceDate,
+              ),
+            ),
+          );
+
+        const updatedTrip = await applyOccurrenceOverride(
+          tx,
+          route,
+          input.occurrenceDate,
+          null,
+        );
+
+        return { trip: updatedTrip };
+      });
+    }),
+
   /**
    * Create a new trip for this driver route
    */
@@ -290,7 +848,7 @@ export const driversRouteRouter = {
       z.object({
         driverRouteId: z.uuid(),
         status: z
-          .enum(["pending", "accepted", "rejected", "cancelled"])
+          .enum(["pending", "accepted", "rejected", "cancelled", "expired"])
           .optional(),
       }),
     )
@@ -338,79 +896,83 @@ export const driversRouteRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const request = await ctx.db.query.passengerRequest.findFirst({
-        where: eq(schema.passengerRequest.id, input.requestId),
-        with: {
-          driverRoute: true,
-        },
-      });
-
-      if (!request) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Request not found",
-        });
-      }
+      return ctx.db.transaction(async (tx) => {
+        // Lock the request so it can't be accepted twice concurrently
+        const [request] = await tx
+          .select()
+          .from(schema.passengerRequest)
+          .where(eq(schema.passengerRequest.id, input.requestId))
+          .for("update");
+
+        if (!request) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Request not found",
+          });
+        }
 
-      if (request.driverRoute.driverId !== ctx.session.user.id) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "You don't have permission to accept this request",
+        const route = await tx.query.driverRoute.findFirst({
+          where: eq(schema.driverRoute.id, request.driverRouteId),
         });
-      }
 
-      if (request.status !== "pending") {
-        throw new TRPCError({
-          code: "PRECONDITION_FAILED",
-          message: "Can only accept pending requests",
-        });
-      }
+        if (route?.driverId !== ctx.session.user.id) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You don't have permission to accept this request",
+          });
+        }
 
-      // If tripId is provided, verify it belongs to this route and create a booking
-      if (input.tripId) {
-        const tripRecord = await ctx.db.query.trip.findFirst({
-          where: and(
-            eq(schema.trip.id, input.tripId),
-            eq(schema.trip.driverRouteId, request.driverRouteId),
-          ),
-        });
+        if (request.status !== "pending") {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "Can only accept pending requests",
+          });
+        }
 
-        if (!tripRecord) {
+        // The sweeper may not have caught up with the deadline yet
+        if (request.expiresAt && request.expiresAt <= new Date()) {
           throw new TRPCError({
-            code: "NOT_FOUND",
-            message: "Trip not found or doesn't belong to this route",
+            code: "PRECONDITION_FAILED",
+            message: "This request has expired",
           });
         }
 
-        // Create booking
-        await ctx.db.insert(schema.booking).values({
-          tripId: input.tripId,
-          passengerId: request.passengerId,
-          passengerRequestId: request.id,
-          pickupPlaceId: request.pickupPlaceId,
-          pickupName: request.pickupName,
-          pickupLat: request.pickupLat,
-          pickupLng: request.pickupLng,
-          dropoffPlaceId: request.dropoffPlaceId,
-          dropoffName: request.dropoffName,
-          dropoffLat: request.dropoffLat,
-          dropoffLng: request.dropoffLng,
-          seatsBooked: request.seatsRequested,
-          pricePerSeat: request.driverRoute.pricePerSeat,
-        });
-      }
+        // Book onto the given trip, or the trip the passenger asked for
+        const tripId = input.tripId ?? request.tripId;
 
-      // Update request status
-      const [updatedRequest] = await ctx.db
-        .update(schema.passengerRequest)
-        .set({
-          status: "accepted",
-          tripId: input.tripId ?? request.tripId,
-        })
-        .where(eq(schema.passengerRequest.id, input.requestId))
-        .returning();
+        if (tripId) {
+          const tripRecord = await tx.query.trip.findFirst({
+            where: and(
+              eq(schema.trip.id, tripId),
+              eq(schema.trip.driverRouteId, request.driverRouteId),
+            ),
+          });
 
-      return updatedRequest;
+          if (!tripRecord) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Trip not found or doesn't belong to this route",
+            });
+          }
+
+          const confirmed = await confirmRequest(
+            tx,
+            request,
+            tripId,
+            legPricePerSeat({ ...tripRecord, driverRoute: route }, request),
+          );
+
+          return confirmed.request;
+        }
+
+        const [updatedRequest] = await tx
+          .update(schema.passengerRequest)
+          .set({ status: "accepted" })
+          .where(eq(schema.passengerRequest.id, input.requestId))
+          .returning();
+
+        return updatedRequest;
+      });
     }),
 
   /**
@@ -422,7 +984,7 @@ export const driversRouteRouter = {
       const request = await ctx.db.query.passengerRequest.findFirst({
         where: eq(schema.passengerRequest.id, input.requestId),
         with: {
-          driverRoute: true,
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
         },
       });
 
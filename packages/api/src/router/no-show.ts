@@ -0,0 +1,328 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { Database } from "@app/db/client";
+import { eq } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import {
+  confirmNoShowReport,
+  lockNoShowReport,
+  NO_SHOW_CONTEST_HOURS,
+  NO_SHOW_RESOLUTION_DAYS,
+  noShowReportableUntil,
+  noShowResolveBy,
+  resolveNoShowReport,
+} from "../lib/no-shows";
+import { notify } from "../lib/notifications";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { protectedProcedure } from "../trpc";
+
+/**
+ * Find a report the user is the reported party of
+ */
+async function findReportAgainst(
+  db: Database,
+  reportId: string,
+  userId: string,
+) {
+  const report = await db.query.noShowReport.findFirst({
+    where: eq(schema.noShowReport.id, reportId),
+  });
+
+  if (report?.reportedUserId !== userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "No-show report not found or you don't have permission",
+    });
+  }
+
+  return report;
+}
+
+/**
+ * No-show reports.
+ *
+ * After departure the driver can report a passenger who didn't turn up, and a
+ * passenger can report the driver. The reported user can accept the report or
+ * contest it within the contest window; uncontested reports are upheld by the
+ * scheduler once the window closes. A contested report stays open until
+ * either side settles it, and is dismissed by the scheduler if nobody has
+ * within NO_SHOW_RESOLUTION_DAYS, so it never counts against anyone on one
+ * side's word.
+ *
+ * Passengers the driver never checked in get a report filed by the system,
+ * which only counts once the driver confirms it.
+ */
+export const noShowRouter = {
+  /**
+   * Report the other side of a booking as a no-show
+   */
+  report: protectedProcedure
+    .input(
+      z.object({
+        bookingId: z.uuid(),
+        details: z.string().max(1000).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const bookingRecord = await ctx.db.query.booking.findFirst({
+        where: eq(schema.booking.id, input.bookingId),
+        with: {
+          trip: {
+            with: {
+              driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+            },
+          },
+          noShowReport: true,
+        },
+      });
+
+      const isDriver = bookingRecord?.trip.driverId === userId;
+      const isPassenger = bookingRecord?.passengerId === userId;
+
+      if (!bookingRecord || (!isDriver && !isPassenger)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Booking not found or you don't have permission",
+        });
+      }
+
+      if (
+        bookingRecord.status !== "confirmed" &&
+        bookingRecord.status !== "completed"
+      ) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Only confirmed or completed bookings can have a no-show",
+        });
+      }
+
+      const now = new Date();
+      const { trip } = bookingRecord;
+
+      if (trip.status === "cancelled" || trip.departureTime > now) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "A no-show can only be reported after departure",
+        });
+      }
+
+      if (now > noShowReportableUntil(trip.departureTime)) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "It's too late to report a no-show for this trip",
+        });
+      }
+
+      if (bookingRecord.boardedAt) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message:
+            "The passenger was checked in for this trip, so it wasn't a no-show",
+        });
+      }
+
+      if (bookingRecord.noShowReport) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A no-show has already been reported for this booking",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [report] = await tx
+          .insert(schema.noShowReport)
+          .values({
+            bookingId: bookingRecord.id,
+            tripId: trip.id,
+            type: isDriver ? "passenger_no_show" : "driver_no_show",
+            reporterId: userId,
+            reportedUserId: isDriver
+              ? bookingRecord.passengerId
+              : trip.driverId,
+            details: input.details,
+            contestDeadline: new Date(
+              now.getTime() + NO_SHOW_CONTEST_HOURS * 60 * 60 * 1000,
+            ),
+          })
+          .onConflictDoNothing({ target: schema.noShowReport.bookingId })
+          .returning();
+
+        if (!report) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "A no-show has already been reported for this booking",
+          });
+        }
+
+        await notify(tx, [
+          {
+            userId: report.reportedUserId,
+            type: "no_show_reported",
+            title: isDriver
+              ? "The driver reported you as a no-show"
+              : "A passenger reported you as a no-show",
+            body: `For ${trip.driverRoute.fromName} → ${trip.driverRoute.toName}. You have ${NO_SHOW_CONTEST_HOURS} hours to contest it.`,
+            link: isDriver ? "/my-requests" : `/ride/${trip.id}`,
+          },
+        ]);
+
+        return report;
+      });
+    }),
+
+  /**
+   * Dispute a report made against you
+   */
+  contest: protectedProcedure
+    .input(
+      z.object({
+        reportId: z.uuid(),
+        response: z.string().min(1).max(1000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await findReportAgainst(ctx.db, input.reportId, ctx.session.user.id);
+
+      return ctx.db.transaction(async (tx) => {
+        const report = await lockNoShowReport(tx, input.reportId);
+
+        if (
+          report.status !== "pending" ||
+          report.contestDeadline <= new Date()
+        ) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "This report can no longer be contested",
+          });
+        }
+
+        const [contested] = await tx
+          .update(schema.noShowReport)
+          .set({
+            status: "contested",
+            response: input.response,
+            resolveBy: noShowResolveBy(new Date()),
+          })
+          .where(eq(schema.noShowReport.id, report.id))
+          .returning();
+
+        await notify(tx, [
+          {
+            userId: report.reporterId,
+            type: "no_show_reported",
+            title: "Your no-show report was contested",
+            body: `${input.response}\n\nThe report is dismissed in ${NO_SHOW_RESOLUTION_DAYS} days unless it's settled first.`,
+            link: `/ride/${report.tripId}`,
+          },
+        ]);
+
+        return contested;
+      });
+    }),
+
+  /**
+   * Accept a report made against you, making it final
+   */
+  accept: protectedProcedure
+    .input(z.object({ reportId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await findReportAgainst(ctx.db, input.reportId, userId);
+
+      return ctx.db.transaction(async (tx) => {
+        const report = await lockNoShowReport(tx, input.reportId);
+
+        return resolveNoShowReport(tx, report, "upheld", {
+          actorId: userId,
+          reason: "No-show accepted by the reported user",
+        });
+      });
+    }),
+
+  /**
+   * Confirm a no-show the system filed on your behalf
+   */
+  confirm: protectedProcedure
+    .input(z.object({ reportId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      return ctx.db.transaction(async (tx) => {
+        const report = await lockNoShowReport(tx, input.reportId);
+
+        if (report.reporterId !== userId) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No-show report not found or you don't have permission",
+          });
+        }
+
+        return confirmNoShowReport(tx, report);
+      });
+    }),
+
+  /**
+   * Withdraw a report you made
+   */
+  withdraw: protectedProcedure
+    .input(z.object({ reportId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      return ctx.db.transaction(async (tx) => {
+        const report = await lockNoShowReport(tx, input.reportId);
+
+        if (report.reporterId !== userId) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No-show report not found or you don't have permission",
+          });
+        }
+
+        return resolveNoShowReport(tx, report, "dismissed", {
+          actorId: userId,
+          reason: "No-show report withdrawn",
+        });
+      });
+    }),
+
+  /**
+   * The no-show report on a booking, for either side of it
+   */
+  forBooking: protectedProcedure
+    .input(z.object({ bookingId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const bookingRecord = await ctx.db.query.booking.findFirst({
+        where: eq(schema.booking.id, input.bookingId),
+        with: {
+          trip: true,
+          noShowReport: true,
+        },
+      });
+
+      if (
+        !bookingRecord ||
+        (bookingRecord.passengerId !== userId &&
+          bookingRecord.trip.driverId !== userId)
+      ) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Booking not found or you don't have permission",
+        });
+      }
+
+      return {
+        report: bookingRecord.noShowReport,
+        reportableUntil: noShowReportableUntil(
+          bookingRecord.trip.departureTime,
+        ),
+      };
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,87 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, count, desc, eq, isNull } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { protectedProcedure } from "../trpc";
+
+export const notificationRouter = {
+  /**
+   * Get the current user's most recent notifications
+   */
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(50).default(20),
+          unreadOnly: z.boolean().default(false),
+        })
+        .optional(),
+    )
+    .query(({ ctx, input }) => {
+      return ctx.db.query.notification.findMany({
+        where: and(
+          eq(schema.notification.userId, ctx.session.user.id),
+          input?.unreadOnly ? isNull(schema.notification.readAt) : undefined,
+        ),
+        orderBy: [desc(schema.notification.createdAt)],
+        limit: input?.limit ?? 20,
+      });
+    }),
+
+  /**
+   * Count the current user's unread notifications
+   */
+  unreadCount: protectedProcedure.query(async ({ ctx }) => {
+    const [result] = await ctx.db
+      .select({ count: count() })
+      .from(schema.notification)
+      .where(
+        and(
+          eq(schema.notification.userId, ctx.session.user.id),
+          isNull(schema.notification.readAt),
+        ),
+      );
+
+    return result?.count ?? 0;
+  }),
+
+  /**
+   * Mark a notification as read
+   */
+  markRead: protectedProcedure
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [updated] = await ctx.db
+        .update(schema.notification)
+        .set({ readAt: new Date() })
+        .where(
+          and(
+            eq(schema.notification.id, input.id),
+            eq(schema.notification.userId, ctx.session.user.id),
+            isNull(schema.notification.readAt),
+          ),
+        )
+        .returning();
+
+      return updated ?? null;
+    }),
+
+  /**
+   * Mark all of the current user's notifications as read
+   */
+  markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+    await ctx.db
+      .update(schema.notification)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(schema.notification.userId, ctx.session.user.id),
+          isNull(schema.notification.readAt),
+        ),
+      );
+
+    return { success: true };
+  }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,203 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, desc, eq } from "@app/db";
+import * as schema from "@app/db/schema";
+import { CreatePassengerRouteSchema } from "@app/db/schema";
+
+import { notify } from "../lib/notifications";
+import { PASSENGER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { protectedProcedure, publicProcedure } from "../trpc";
+
+export const passengerRouteRouter = {
+  /**
+   * Get a "ride wanted" listing by ID
+   */
+  byId: publicProcedure
+    .input(z.object({ id: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const listing = await ctx.db.query.passengerRoute.findFirst({
+        where: eq(schema.passengerRoute.id, input.id),
+        columns: PASSENGER_ROUTE_COLUMNS,
+        with: {
+          passenger: true,
+        },
+      });
+
+      if (!listing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Listing not found",
+        });
+      }
+
+      return listing;
+    }),
+
+  /**
+   * Get all listings posted by the current user, with their offers
+   */
+  myRoutes: protectedProcedure.query(({ ctx }) => {
+    return ctx.db.query.passengerRoute.findMany({
+      where: eq(schema.passengerRoute.passengerId, ctx.session.user.id),
+      orderBy: [desc(schema.passengerRoute.departureTime)],
+      columns: PASSENGER_ROUTE_COLUMNS,
+      with: {
+        offers: {
+          orderBy: [desc(schema.driverOffer.createdAt)],
+          with: {
+            driver: true,
+          },
+        },
+      },
+    });
+  }),
+
+  /**
+   * Post a new "ride wanted" listing
+   */
+  create: protectedProcedure
+    .input(CreatePassengerRouteSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (input.departureTime <= new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Departure time must be in the future",
+        });
+      }
+
+      const [newListing] = await ctx.db
+        .insert(schema.passengerRoute)
+        .values({
+          ...input,
+          passengerId: ctx.session.user.id,
+        })
+        .returning();
+
+      if (!newListing) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create listing",
+        });
+      }
+
+      return newListing;
+    }),
+
+  /**
+   * Update an active listing
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.uuid(),
+        data: z.object({
+          // Desired trip details
+          departureTime: z.coerce.date().optional(),
+          flexibilityMinutes: z.number().int().min(0).max(1440).optional(),
+          description: z.string().max(1000).optional(),
+
+          // Passenger needs
+          seatsNeeded: z.number().int().min(1).max(10).optional(),
+          maxPricePerSeat: z.number().int().min(0).nullable().optional(),
+
+          // Passenger items
+          luggageSize: z.enum(["small", "medium", "large"]).optional(),
+          hasBike: z.boolean().optional(),
+          hasSkis: z.boolean().optional(),
+          hasPet: z.boolean().optional(),
+        }),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existingListing = await ctx.db.query.passengerRoute.findFirst({
+        where: and(
+          eq(schema.passengerRoute.id, input.id),
+          eq(schema.passengerRoute.passengerId, ctx.session.user.id),
+        ),
+      });
+
+      if (!existingListing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Listing not found or you don't have permission",
+        });
+      }
+
+      if (existingListing.status !== "active") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Can only update active listings",
+        });
+      }
+
+      if (input.data.departureTime && input.data.departureTime <= new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Departure time must be in the future",
+        });
+      }
+
+      const [updatedListing] = await ctx.db
+        .update(schema.passengerRoute)
+        .set(input.data)
+        .where(eq(schema.passengerRoute.id, input.id))
+        .returning();
+
+      return updatedListing;
+    }),
+
+  /**
+   * Close a listing (no longer looking for a ride)
+   * Pending offers on it are rejected
+   */
+  close: protectedProcedure
+    .input(z.object({ id: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.transaction(async (tx) => {
+        const [closedListing] = await tx
+          .update(schema.passengerRoute)
+          .set({ status: "closed" })
+          .where(
+            and(
+              eq(schema.passengerRoute.id, input.id),
+              eq(schema.passengerRoute.passengerId, ctx.session.user.id),
+              eq(schema.passengerRoute.status, "active"),
+            ),
+          )
+          .returning();
+
+        if (!closedListing) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No active listing found",
+          });
+        }
+
+        const rejectedOffers = await tx
+          .update(schema.driverOffer)
+          .set({ status: "rejected" })
+          .where(
+            and(
+              eq(schema.driverOffer.passengerRouteId, closedListing.id),
+              eq(schema.driverOffer.status, "pending"),
+            ),
+          )
+          .returning();
+
+        await notify(
+          tx,
+          rejectedOffers.map((offer) => ({
+            userId: offer.driverId,
+            type: "offer_rejected" as const,
+            title: "Your ride offer was declined",
+            body: `The passenger is no longer looking for a ride from ${closedListing.fromName} to ${closedListing.toName}.`,
+            link: null,
+          })),
+        );
+
+        return closedListing;
+      });
+    }),
+} satisfies TRPCRouterRecord;
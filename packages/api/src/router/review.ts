@@ -5,6 +5,8 @@ import { z } from "zod/v4";
 import { and, avg, count, desc, eq, inArray, sql } from "@app/db";
 import * as schema from "@app/db/schema";
 
+import { reviewBlocker } from "../lib/reviews";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
 import { protectedProcedure, publicProcedure } from "../trpc";
 
 export const reviewRouter = {
@@ -53,7 +55,7 @@ export const reviewRouter = {
             with: {
               trip: {
                 with: {
-                  driverRoute: true,
+                  driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
                 },
               },
             },
@@ -97,7 +99,7 @@ export const reviewRouter = {
             with: {
               trip: {
                 with: {
-                  driverRoute: true,
+                  driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
                 },
               },
             },
@@ -242,7 +244,7 @@ export const reviewRouter = {
             with: {
               trip: {
                 with: {
-                  driverRoute: true,
+                  driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
                 },
               },
             },
@@ -289,7 +291,7 @@ export const reviewRouter = {
             with: {
               trip: {
                 with: {
-                  driverRoute: true,
+                  driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
                 },
               },
             },
@@ -325,6 +327,7 @@ export const reviewRouter = {
         where: eq(schema.booking.id, input.bookingId),
         with: {
           trip: true,
+          noShowReport: true,
         },
       });
 
@@ -332,8 +335,9 @@ export const reviewRouter = {
         return { canReview: false, reason: "Booking not found" };
       }
 
-      if (bookingData.status !== "completed") {
-        return { canReview: false, reason: "Booking is not completed yet" };
+      const blocker = reviewBlocker(bookingData);
+      if (blocker) {
+        return { canReview: false, reason: blocker };
       }
 
       // Check if user was part of this booking
@@ -390,6 +394,7 @@ export const reviewRouter = {
         where: eq(schema.booking.id, input.bookingId),
         with: {
           trip: true,
+          noShowReport: true,
         },
       });
 
@@ -400,10 +405,11 @@ export const reviewRouter = {
         });
       }
 
-      if (bookingData.status !== "completed") {
+      const blocker = reviewBlocker(bookingData);
+      if (blocker) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Can only review completed bookings",
+          message: blocker,
         });
       }
 
@@ -542,16 +548,10 @@ export const reviewRouter = {
       return { success: true };
     }),
 
-  // Get pending reviews (completed bookings where user hasn't left a review)
+  // Get pending reviews (reviewable bookings where user hasn't left a review)
   pendingReviews: protectedProcedure.query(async ({ ctx }) => {
     const userId = ctx.session.user.id;
 
-    const completedBookingStates = [
-      "completed",
-      "no_show_driver",
-      "no_show_passenger",
-    ] as const;
-
     // Get completed bookings where user was driver (need to review passengers)
     const driverTrips = await ctx.db.query.trip.findMany({
       where: and(
@@ -559,11 +559,12 @@ export const reviewRouter = {
         inArray(schema.trip.status, ["completed", "cancelled"] as const),
       ),
       with: {
-        driverRoute: true,
+        driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
         bookings: {
-          where: inArray(schema.booking.status, completedBookingStates),
+          where: eq(schema.booking.status, "completed"),
           with: {
             passenger: true,
+            noShowReport: true,
             reviews: {
               where: eq(schema.review.reviewerId, userId),
             },
@@ -576,13 +577,14 @@ export const reviewRouter = {
     const passengerBookings = await ctx.db.query.booking.findMany({
       where: and(
         eq(schema.booking.passengerId, userId),
-        inArray(schema.booking.status, completedBookingStates),
+        eq(schema.booking.status, "completed"),
       ),
       with: {
+        noShowReport: true,
         trip: {
           with: {
             driver: true,
-            driverRoute: true,
+            driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
           },
         },
         reviews: {
@@ -606,7 +608,7 @@ export const reviewRouter = {
         const hasReviewed = booking.reviews.some(
           (r) => r.revieweeId === booking.passengerId,
         );
-        if (!hasReviewed) {
+        if (!hasReviewed && !reviewBlocker(booking)) {
           pendingReviews.push({
             bookingId: booking.id,
             tripName: `${tripData.driverRoute.fromName} → ${tripData.driverRoute.toName}`,
@@ -624,7 +626,7 @@ export const reviewRouter = {
       const hasReviewed = booking.reviews.some(
         (r) => r.revieweeId === booking.trip.driverId,
       );
-      if (!hasReviewed) {
+      if (!hasReviewed && !reviewBlocker(booking)) {
         pendingReviews.push({
           bookingId: booking.id,
           tripName: `${booking.trip.driverRoute.fromName} → ${booking.trip.driverRoute.toName}`,
@@ -0,0 +1,463 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { Database, Transaction } from "@app/db/client";
+import { and, desc, eq, inArray, isNotNull } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import type { LatLng } from "../lib/route-geometry";
+import { confirmRequest, legPricePerSeat } from "../lib/bookings";
+import { freeCancellationDeadline } from "../lib/cancellation-policy";
+import { checkInPayload } from "../lib/check-in";
+import { requestExpiresAt } from "../lib/expiry";
+import { getInstantBookBlockers } from "../lib/instant-book";
+import { noShowReportableUntil } from "../lib/no-shows";
+import { DRIVER_ROUTE_COLUMNS, isSameDirection } from "../lib/route-geometry";
+import { getAvailableSeats } from "../lib/seats";
+import { protectedProcedure } from "../trpc";
+
+type TripWithRoute = schema.Trip & {
+  driverRoute: Omit<schema.DriverRoute, keyof typeof DRIVER_ROUTE_COLUMNS>;
+};
+
+/**
+ * Check the passenger can request seats on a trip. Returns the instant-book
+ * rules the request doesn't meet (empty when it can be booked straight away).
+ * `label` names the trip in error messages ("ride", "return ride").
+ */
+async function checkRequestableTrip(
+  db: Database,
+  tripRecord: TripWithRoute,
+  userId: string,
+  seatsRequested: number,
+  stops: { pickup: LatLng | null; dropoff: LatLng | null },
+  label: string,
+) {
+  if (tripRecord.driverId === userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `You cannot request a seat on your own ${label}`,
+    });
+  }
+
+  if (
+    tripRecord.status !== "scheduled" ||
+    tripRecord.departureTime <= new Date()
+  ) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `This ${label} is no longer accepting requests`,
+    });
+  }
+
+  // Only the passengers riding along the same stretch compete for seats
+  const availableSeats =
+    (
+      await getAvailableSeats(db, [tripRecord], {
+        pickupLat: stops.pickup?.lat,
+        pickupLng: stops.pickup?.lng,
+        dropoffLat: stops.dropoff?.lat,
+        dropoffLng: stops.dropoff?.lng,
+      })
+    ).get(tripRecord.id) ?? 0;
+
+  if (seatsRequested > availableSeats) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message:
+        availableSeats === 0
+          ? `This ${label} is full`
+          : `Only ${availableSeats} seats are available on this ${label}`,
+    });
+  }
+
+  // Pickup must come before dropoff along the driver's route
+  if (
+    stops.pickup &&
+    stops.dropoff &&
+    !isSameDirection(
+      tripRecord.driverRoute.routeGeometry,
+      stops.pickup,
+      stops.dropoff,
+    )
+  ) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        "Your pickup must come before your dropoff along the driver's route",
+    });
+  }
+
+  // Only one open request per passenger per ride
+  const existingRequest = await db.query.passengerRequest.findFirst({
+    where: and(
+      eq(schema.passengerRequest.tripId, tripRecord.id),
+      eq(schema.passengerRequest.passengerId, userId),
+      inArray(schema.passengerRequest.status, ["pending", "accepted"]),
+    ),
+  });
+
+  if (existingRequest) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `You have already requested a seat on this ${label}`,
+    });
+  }
+
+  return getInstantBookBlockers(db, tripRecord.driverRoute, userId, stops);
+}
+
+/**
+ * Insert a request for one trip, confirming it as a booking straight away
+ * when `instantBook` is set. Throws CONFLICT when the passenger already has
+ * an open request on the trip.
+ */
+async function createLegRequest(
+  tx: Transaction,
+  tripRecord: TripWithRoute,
+  userId: string,
+  values: Omit<
+    schema.NewPassengerRequest,
+    "driverRouteId" | "tripId" | "passengerId"
+  >,
+  instantBook: boolean,
+) {
+  const [newRequest] = await tx
+    .insert(schema.passengerRequest)
+    .values({
+      ...values,
+      driverRouteId: tripRecord.driverRouteId,
+      tripId: tripRecord.id,
+      passengerId: userId,
+      expiresAt: requestExpiresAt(
+        tripRecord.departureTime,
+        tripRecord.driverRoute.requestResponseHours,
+      ),
+    })
+    // A concurrent request for the same trip got in first
+    .onConflictDoNothing()
+    .returning();
+
+  if (!newRequest) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "You have already requested a seat on this ride",
+    });
+  }
+
+  if (!instantBook) return { request: newRequest, booking: null };
+
+  return confirmRequest(
+    tx,
+    newRequest,
+    tripRecord.id,
+    legPricePerSeat(tripRecord, newRequest),
+  );
+}
+
+export const rideRequestRouter = {
+  /**
+   * Request to join a ride (trip) with a custom pickup and dropoff
+   * If the route has instant booking on and the passenger meets its rules,
+   * the request is confirmed as a booking straight away.
+   * With includeReturn, the return trip of a round trip is requested in the
+   * same go, with pickup and dropoff swapped.
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        rideId: z.uuid(),
+        pickupPlaceId: z.string().min(1).optional(),
+        pickupName: z.string().max(256).optional(),
+        pickupLat: z.number().optional(),
+        pickupLng: z.number().optional(),
+        dropoffPlaceId: z.string().min(1).optional(),
+        dropoffName: z.string().max(256).optional(),
+        dropoffLat: z.number().optional(),
+        dropoffLng: z.number().optional(),
+        seatsRequested: z.number().int().min(1).max(10).default(1),
+        message: z.string().max(500).optional(),
+        includeReturn: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const { rideId, includeReturn, ...requestData } = input;
+
+      const tripRecord = await ctx.db.query.trip.findFirst({
+        where: eq(schema.trip.id, rideId),
+        with: {
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+        },
+      });
+
+      if (!tripRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ride not found",
+        });
+      }
+
+      const stops = {
+        pickup:
+          input.pickupLat !== undefined && input.pickupLng !== undefined
+            ? { lat: input.pickupLat, lng: input.pickupLng }
+            : null,
+        dropoff:
+          input.dropoffLat !== undefined && input.dropoffLng !== undefined
+            ? { lat: input.dropoffLat, lng: input.dropoffLng }
+            : null,
+      };
+      const instantBookBlockers = await checkRequestableTrip(
+        ctx.db,
+        tripRecord,
+        userId,
+        input.seatsRequested,
+        stops,
+        "ride",
+      );
+
+      // The way back starts where the passenger gets dropped off
+      const returnTripRecord =
+        includeReturn && tripRecord.returnTripId
+          ? await ctx.db.query.trip.findFirst({
+              where: eq(schema.trip.id, tripRecord.returnTripId),
+              with: {
+                driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+              },
+            })
+          : undefined;
+
+      if (includeReturn && !returnTripRecord) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "This ride has no return trip",
+        });
+      }
+
+      const returnData = {
+        ...requestData,
+        pickupPlaceId: requestData.dropoffPlaceId,
+        pickupName: requestData.dropoffName,
+        pickupLat: requestData.dropoffLat,
+        pickupLng: requestData.dropoffLng,
+        dropoffPlaceId: requestData.pickupPlaceId,
+        dropoffName: requestData.pickupName,
+        dropoffLat: requestData.pickupLat,
+        dropoffLng: requestData.pickupLng,
+      };
+      const returnInstantBookBlockers = returnTripRecord
+        ? await checkRequestableTrip(
+            ctx.db,
+            returnTripRecord,
+            userId,
+            input.seatsRequested,
+            { pickup: stops.dropoff, dropoff: stops.pickup },
+            "return ride",
+          )
+        : [];
+
+      return ctx.db.transaction(async (tx) => {
+        const outbound = await createLegRequest(
+          tx,
+          tripRecord,
+          userId,
+          requestData,
+          instantBookBlockers.length === 0,
+        );
+
+        const returnLeg = returnTripRecord
+          ? await createLegRequest(
+              tx,
+              returnTripRecord,
+              userId,
+              { ...returnData, outboundRequestId: outbound.request.id },
+              returnInstantBookBlockers.length === 0,
+            )
+          : null;
+
+        // A conversation only exists once there is a booking; requests that
+        // don't meet the instant-book rules wait for the driver
+        let conversationId: string | null = null;
+        for (const booking of [outbound.booking, returnLeg?.booking]) {
+          if (!booking) continue;
+
+          const [newConversation] = await tx
+            .insert(schema.conversation)
+            .values({ bookingId: booking.id })
+            .returning();
+
+          if (newConversation && !conversationId) {
+            conversationId = newConversation.id;
+
+            if (input.message) {
+              await tx.insert(schema.message).values({
+                conversationId: newConversation.id,
+                senderId: userId,
+                content: input.message,
+              });
+            }
+          }
+        }
+
+        return {
+          request: outbound.request,
+          instantBooked: outbound.booking !== null,
+          returnRequest: returnLeg && {
+            request: returnLeg.request,
+            instantBooked: returnLeg.booking !== null,
+          },
+          conversationId,
+        };
+      });
+    }),
+
+  /**
+   * Get all ride requests made by the current user
+   */
+  myRequests: protectedProcedure.query(async ({ ctx }) => {
+    const requests = await ctx.db.query.passengerRequest.findMany({
+      where: and(
+        eq(schema.passengerRequest.passengerId, ctx.session.user.id),
+        isNotNull(schema.passengerRequest.tripId),
+      ),
+      orderBy: [desc(schema.passengerRequest.createdAt)],
+      with: {
+        driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+        trip: {
+          with: {
+            driver: true,
+          },
+        },
+        bookings: {
+          with: {
+            conversations: true,
+            noShowReport: true,
+            rescheduleConfirmations: {
+              where: eq(schema.rescheduleConfirmation.status, "pending"),
+            },
+          },
+        },
+      },
+    });
+
+    return requests.flatMap((request) => {
+      if (!request.trip) return [];
+
+      const booking = request.bookings[0] ?? null;
+      const conversation =
+        request.bookings.flatMap((b) => b.conversations)[0] ?? null;
+
+      return {
+        id: request.id,
+        rideId: request.trip.id,
+        status: request.status,
+        seatsRequested: request.seatsRequested,
+        message: request.message,
+        pickupName: request.pickupName,
+        dropoffName: request.dropoffName,
+        expiresAt: request.expiresAt,
+        isReturnLeg: request.outboundRequestId !== null,
+        createdAt: request.createdAt,
+        ride: {
+          id: request.trip.id,
+          fromName: request.driverRoute.fromName,
+          toName: request.driverRoute.toName,
+          departureTime: request.trip.departureTime,
+          driver: {
+            id: request.trip.driver.id,
+            name: request.trip.driver.name,
+            image: request.trip.driver.image,
+          },
+        },
+        booking: booking
+          ? {
+              id: booking.id,
+              status: booking.status,
+              checkInCode: booking.checkInCode,
+              checkInPayload: checkInPayload(booking),
+              boardedAt: booking.boardedAt,
+              freeCancellationUntil: freeCancellationDeadline(
+                request.trip.departureTime,
+                request.driverRoute.freeCancellationHours,
+              ),
+              noShowReport: booking.noShowReport
+                ? {
+                    id: booking.noShowReport.id,
+                    type: booking.noShowReport.type,
+                    status: booking.noShowReport.status,
+                    isReporter:
+                      booking.noShowReport.reporterId === ctx.session.user.id,
+                    contestDeadline: booking.noShowReport.contestDeadline,
+                    resolveBy: booking.noShowReport.resolveBy,
+                  }
+                : null,
+              noShowReportableUntil: noShowReportableUntil(
+                request.trip.departureTime,
+              ),
+              pendingReschedule: booking.rescheduleConfirmations[0]
+                ? {
+                    previousDepartureTime:
+                      booking.rescheduleConfirmations[0].previousDepartureTime,
+                    newDepartureTime:
+                      booking.rescheduleConfirmations[0].newDepartureTime,
+                    respondBy: booking.rescheduleConfirmations[0].respondBy,
+                  }
+                : null,
+            }
+          : null,
+        conversation: conversation ? { id: conversation.id } : null,
+      };
+    });
+  }),
+
+  /**
+   * Cancel a pending ride request (only by the passenger)
+   */
+  cancel: protectedProcedure
+    .input(z.object({ requestId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const request = await ctx.db.query.passengerRequest.findFirst({
+        where: and(
+          eq(schema.passengerRequest.id, input.requestId),
+          eq(schema.passengerRequest.passengerId, ctx.session.user.id),
+        ),
+      });
+
+      if (!request) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Request not found or you don't have permission",
+        });
+      }
+
+      if (request.status !== "pending") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Can only cancel pending requests",
+        });
+      }
+
+      const [cancelledRequest] = await ctx.db
+        .update(schema.passengerRequest)
+        .set({ status: "cancelled" })
+        .where(
+          and(
+            eq(schema.passengerRequest.id, input.requestId),
+            eq(schema.passengerRequest.status, "pending"),
+          ),
+        )
+        .returning();
+
+      // The driver answered the request, or it expired, in the meantime
+      if (!cancelledRequest) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This request is no longer pending",
+        });
+      }
+
+      return cancelledRequest;
+    }),
+} satisfies TRPCRouterRecord;
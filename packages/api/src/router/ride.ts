@@ -0,0 +1,115 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { and, asc, eq, gt } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { legPricePerSeat } from "../lib/bookings";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { getAvailableSeats, tripSeatsOffered } from "../lib/seats";
+import { publicProcedure } from "../trpc";
+
+const latLng = z.object({
+  lat: z.number(),
+  lng: z.number(),
+});
+
+export const rideRouter = {
+  /**
+   * Get a ride (a trip merged with its driver route) by trip ID
+   * Includes the remaining seat count for the trip, and the return trip of
+   * a round trip while it is still open for requests, and the route's stops
+   * in driving order. With the passenger's pickup and dropoff, seats are
+   * counted along their stretch of the route (reversed for the return trip).
+   */
+  byId: publicProcedure
+    .input(
+      z.object({
+        id: z.uuid(),
+        pickup: latLng.optional(),
+        dropoff: latLng.optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const tripRecord = await ctx.db.query.trip.findFirst({
+        where: eq(schema.trip.id, input.id),
+        with: {
+          driverRoute: {
+            columns: DRIVER_ROUTE_COLUMNS,
+            with: {
+              stops: {
+                orderBy: asc(schema.driverRouteStop.position),
+              },
+            },
+          },
+          driver: true,
+        },
+      });
+
+      if (!tripRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ride not found",
+        });
+      }
+
+      const returnTripRecord = tripRecord.returnTripId
+        ? await ctx.db.query.trip.findFirst({
+            where: and(
+              eq(schema.trip.id, tripRecord.returnTripId),
+              eq(schema.trip.status, "scheduled"),
+              gt(schema.trip.departureTime, new Date()),
+            ),
+            with: {
+              driverRoute: {
+                columns: DRIVER_ROUTE_COLUMNS,
+              },
+            },
+          })
+        : undefined;
+
+      const leg = {
+        pickupLat: input.pickup?.lat,
+        pickupLng: input.pickup?.lng,
+        dropoffLat: input.dropoff?.lat,
+        dropoffLng: input.dropoff?.lng,
+      };
+      const returnLeg = {
+        pickupLat: leg.dropoffLat,
+        pickupLng: leg.dropoffLng,
+        dropoffLat: leg.pickupLat,
+        dropoffLng: leg.pickupLng,
+      };
+
+      const [availableSeats, returnAvailableSeats] = await Promise.all([
+        getAvailableSeats(ctx.db, [tripRecord], leg),
+        returnTripRecord
+          ? getAvailableSeats(ctx.db, [returnTripRecord], returnLeg)
+          : new Map<string, number>(),
+      ]);
+      const { driverRoute, driver, ...tripData } = tripRecord;
+
+      return {
+        ...driverRoute,
+        ...tripData,
+        seatsOffered: tripSeatsOffered(tripRecord),
+        pricePerSeat: legPricePerSeat(tripRecord, leg),
+        driver: {
+          id: driver.id,
+          name: driver.name,
+          image: driver.image,
+        },
+        availableSeats: availableSeats.get(tripRecord.id) ?? 0,
+        returnTrip: returnTripRecord
+          ? {
+              id: returnTripRecord.id,
+              departureTime: returnTripRecord.departureTime,
+              pricePerSeat: legPricePerSeat(returnTripRecord, returnLeg),
+              availableSeats:
+                returnAvailableSeats.get(returnTripRecord.id) ?? 0,
+            }
+          : null,
+      };
+    }),
+} satisfies TRPCRouterRecord;
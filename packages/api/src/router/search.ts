@@ -1,10 +1,19 @@
 import type { TRPCRouterRecord } from "@trpc/server";
-import * as turf from "@turf/turf";
 import { z } from "zod/v4";
 
-import { and, eq, gte } from "@app/db";
+import { and, eq, gte, inArray, sql } from "@app/db";
 import { driverRoute, passengerRoute, trip } from "@app/db/schema";
-
+import { LUGGAGE_SIZES, TRIP_AMENITIES, TRIP_SORTS } from "@app/validators";
+
+import {
+  DRIVER_ROUTE_COLUMNS,
+  geographyLine,
+  PASSENGER_ROUTE_COLUMNS,
+  sqlNearRoute,
+  sqlPositionOnRoute,
+  sqlSameDirection,
+} from "../lib/route-geometry";
+import { findMatchingTrips } from "../lib/trip-matching";
 import { publicProcedure } from "../trpc";
 
 const latLng = z.object({
@@ -14,13 +23,21 @@ const latLng = z.object({
 
 const routeGeometrySchema = z.object({
   type: z.literal("LineString"),
-  coordinates: z.array(z.tuple([z.number(), z.number()])),
+  coordinates: z.array(z.tuple([z.number(), z.number()])).min(2),
 });
 
 export const searchRouter = {
   /**
    * Search for upcoming trips (for passengers looking for a ride)
    * Finds trips on driver routes that pass near the passenger's pickup and dropoff locations
+   * Route stops near the pickup or dropoff are suggested as meeting points
+   * With a date, only trips leaving that day (give or take flexibilityDays)
+   * and inside the time window are returned; dates and times are in each
+   * route's local time
+   * Amenity, luggage, price, rating and seat filters are applied server-side;
+   * price and seats are for the passenger's own stretch
+   * Results come in the requested sort (best match by default), each with a
+   * matchQuality explaining how well it fits
    */
   findDrivers: publicProcedure
     .input(
@@ -28,84 +45,53 @@ export const searchRouter = {
         pickup: latLng,
         dropoff: latLng,
         radiusKm: z.number().min(1).max(50).default(10),
-        date: z.coerce.date().optional(),
+        date: z.iso.date().optional(),
+        flexibilityDays: z.number().int().min(0).max(7).default(0),
+        timeWindow: z
+          .object({
+            from: z.iso.time(),
+            to: z.iso.time(),
+          })
+          .optional(),
+        amenities: z.array(z.enum(TRIP_AMENITIES)).default([]),
+        minLuggageSize: z.enum(LUGGAGE_SIZES).optional(),
+        maxPricePerSeat: z.number().int().min(0).optional(), // in cents
+        minDriverRating: z.number().min(1).max(5).optional(),
         minSeats: z.number().min(1).max(10).default(1),
+        sort: z.enum(TRIP_SORTS).default("bestMatch"),
         limit: z.number().min(1).max(50).default(20),
       }),
     )
-    .query(async ({ ctx, input }) => {
-      const searchDate = input.date ?? new Date();
-
-      // Fetch scheduled trips with available seats
-      const trips = await ctx.db.query.trip.findMany({
-        where: and(
-          eq(trip.status, "scheduled"),
-          gte(trip.departureTime, searchDate),
-        ),
-        with: {
-          driverRoute: true,
-          driver: true,
+    .query(({ ctx, input }) => {
+      return findMatchingTrips(ctx.db, {
+        pickup: input.pickup,
+        dropoff: input.dropoff,
+        radiusKm: input.radiusKm,
+        departAfter: new Date(),
+        window: input.date
+          ? {
+              date: input.date,
+              flexibilityDays: input.flexibilityDays,
+              times: input.timeWindow,
+            }
+          : undefined,
+        filters: {
+          amenities: input.amenities,
+          minLuggageSize: input.minLuggageSize,
+          maxPricePerSeat: input.maxPricePerSeat,
+          minDriverRating: input.minDriverRating,
+          minSeats: input.minSeats,
         },
+        sort: input.sort,
+        limit: input.limit,
       });
-
-      // Filter trips by route proximity using Turf.js
-      const matchingTrips = trips
-        .filter((t) => t.status === "scheduled")
-        .map((t) => {
-          const line = turf.lineString(t.driverRoute.routeGeometry.coordinates);
-          const pickupPoint = turf.point([input.pickup.lng, input.pickup.lat]);
-          const dropoffPoint = turf.point([
-            input.dropoff.lng,
-            input.dropoff.lat,
-          ]);
-
-          // Find nearest points on the route
-          const pickupNearest = turf.nearestPointOnLine(line, pickupPoint, {
-            units: "kilometers",
-          });
-          const dropoffNearest = turf.nearestPointOnLine(line, dropoffPoint, {
-            units: "kilometers",
-          });
-
-          const pickupDistanceKm =
-            Math.round(pickupNearest.properties.dist * 10) / 10;
-          const dropoffDistanceKm =
-            Math.round(dropoffNearest.properties.dist * 10) / 10;
-          const pickupAlongRouteKm = pickupNearest.properties.location;
-          const dropoffAlongRouteKm = dropoffNearest.properties.location;
-
-          return {
-            ...t,
-            pickupDistanceKm,
-            dropoffDistanceKm,
-            pickupAlongRouteKm,
-            dropoffAlongRouteKm,
-          };
-        })
-        .filter(
-          ({
-            pickupDistanceKm,
-            dropoffDistanceKm,
-            pickupAlongRouteKm,
-            dropoffAlongRouteKm,
-          }) => {
-            // Both pickup and dropoff must be within radius
-            if (pickupDistanceKm > input.radiusKm) return false;
-            if (dropoffDistanceKm > input.radiusKm) return false;
-            // Pickup must come before dropoff along the route (same direction)
-            if (pickupAlongRouteKm >= dropoffAlongRouteKm) return false;
-            return true;
-          },
-        )
-        .sort((a, b) => a.pickupDistanceKm - b.pickupDistanceKm)
-        .slice(0, input.limit);
-
-      return matchingTrips;
     }),
 
   /**
    * Search for passenger routes along a driver's route
    * Finds passengers whose origin and destination fall along the driver's route
+   * With the driver's departure time, only passengers whose own departure,
+   * give or take their flexibilityMinutes, covers it are returned
    */
   findPassengers: publicProcedure
     .input(
@@ -116,84 +102,70 @@ export const searchRouter = {
         // Search radius - how far from the route a passenger can be
         radiusKm: z.number().min(1).max(50).default(10),
         date: z.coerce.date().optional(),
+        departureTime: z.coerce.date().optional(),
         limit: z.number().min(1).max(50).default(20),
       }),
     )
     .query(async ({ ctx, input }) => {
       const searchDate = input.date ?? new Date();
 
-      // Fetch active passenger routes
+      const driverLine = geographyLine(input.routeGeometry);
+      const origin = sqlPositionOnRoute(driverLine, passengerRoute.fromPoint);
+      const destination = sqlPositionOnRoute(
+        driverLine,
+        passengerRoute.toPoint,
+      );
+
+      // Active passenger routes whose origin and destination are near the
+      // driver's route, passengers to pick up first
+      const positions = await ctx.db
+        .select({
+          id: passengerRoute.id,
+          originDistanceKm: origin.distanceKm,
+          destinationDistanceKm: destination.distanceKm,
+          originAlongRouteKm: origin.alongRouteKm,
+          destinationAlongRouteKm: destination.alongRouteKm,
+        })
+        .from(passengerRoute)
+        .where(
+          and(
+            eq(passengerRoute.status, "active"),
+            gte(passengerRoute.departureTime, searchDate),
+            input.departureTime
+              ? sql`abs(extract(epoch from ${passengerRoute.departureTime} - ${input.departureTime}::timestamptz)) <= coalesce(${passengerRoute.flexibilityMinutes}, 0) * 60`
+              : undefined,
+            sqlNearRoute(driverLine, passengerRoute.fromPoint, input.radiusKm),
+            sqlNearRoute(driverLine, passengerRoute.toPoint, input.radiusKm),
+            // Passenger's origin must come before destination along the
+            // route (same direction)
+            sqlSameDirection(
+              driverLine,
+              passengerRoute.fromPoint,
+              passengerRoute.toPoint,
+            ),
+          ),
+        )
+        .orderBy(origin.alongRouteKm)
+        .limit(input.limit);
+
+      if (positions.length === 0) return [];
+
       const passengerRoutes = await ctx.db.query.passengerRoute.findMany({
-        where: and(
-          eq(passengerRoute.status, "active"),
-          gte(passengerRoute.departureTime, searchDate),
+        where: inArray(
+          passengerRoute.id,
+          positions.map((p) => p.id),
         ),
+        columns: PASSENGER_ROUTE_COLUMNS,
         with: {
           passenger: true,
         },
       });
+      const routeById = new Map(passengerRoutes.map((pr) => [pr.id, pr]));
 
-      // Create driver's route line
-      const driverLine = turf.lineString(input.routeGeometry.coordinates);
-
-      // Find passengers along the route
-      const matchingRoutes = passengerRoutes
-        .map((pr) => {
-          // Passenger's origin and destination points
-          const originPoint = turf.point([pr.fromLng, pr.fromLat]);
-          const destinationPoint = turf.point([pr.toLng, pr.toLat]);
-
-          // Find nearest points on the driver's route
-          const originNearest = turf.nearestPointOnLine(
-            driverLine,
-            originPoint,
-            { units: "kilometers" },
-          );
-          const destinationNearest = turf.nearestPointOnLine(
-            driverLine,
-            destinationPoint,
-            { units: "kilometers" },
-          );
-
-          // Distance from route (perpendicular)
-          const originDistanceKm =
-            Math.round(originNearest.properties.dist * 10) / 10;
-          const destinationDistanceKm =
-            Math.round(destinationNearest.properties.dist * 10) / 10;
-
-          // Position along the driver's route
-          const originAlongRouteKm = originNearest.properties.location;
-          const destinationAlongRouteKm =
-            destinationNearest.properties.location;
-
-          return {
-            ...pr,
-            originDistanceKm,
-            destinationDistanceKm,
-            originAlongRouteKm,
-            destinationAlongRouteKm,
-          };
-        })
-        .filter(
-          ({
-            originDistanceKm,
-            destinationDistanceKm,
-            originAlongRouteKm,
-            destinationAlongRouteKm,
-          }) => {
-            // Both origin and destination must be within radius of the route
-            if (originDistanceKm > input.radiusKm) return false;
-            if (destinationDistanceKm > input.radiusKm) return false;
-            // Passenger's origin must come before destination along the route (same direction)
-            if (originAlongRouteKm >= destinationAlongRouteKm) return false;
-            return true;
-          },
-        )
-        // Sort by origin position along route (passengers to pick up first)
-        .sort((a, b) => a.originAlongRouteKm - b.originAlongRouteKm)
-        .slice(0, input.limit);
-
-      return matchingRoutes;
+      return positions.flatMap((position) => {
+        const pr = routeById.get(position.id);
+        return pr ? { ...pr, ...position } : [];
+      });
     }),
 
   /**
@@ -204,6 +176,7 @@ export const searchRouter = {
     .query(({ ctx, input }) => {
       return ctx.db.query.driverRoute.findFirst({
         where: eq(driverRoute.id, input.id),
+        columns: DRIVER_ROUTE_COLUMNS,
         with: {
           driver: true,
           trips: {
@@ -234,7 +207,7 @@ export const searchRouter = {
         where: eq(trip.id, input.id),
         with: {
           driver: true,
-          driverRoute: true,
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
           bookings: {
             with: {
               passenger: true,
@@ -252,6 +225,7 @@ export const searchRouter = {
     .query(({ ctx, input }) => {
       return ctx.db.query.passengerRoute.findFirst({
         where: eq(passengerRoute.id, input.id),
+        columns: PASSENGER_ROUTE_COLUMNS,
         with: {
           passenger: true,
           offers: {
@@ -2,11 +2,35 @@ import type { TRPCRouterRecord } from "@trpc/server";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod/v4";
 
+import type { Database } from "@app/db/client";
 import { and, desc, eq, gte } from "@app/db";
 import * as schema from "@app/db/schema";
 
+import { suggestRebookings } from "../lib/rebooking";
+import { rescheduleTrip } from "../lib/reschedule";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { lockTrip } from "../lib/seats";
+import { transitionTrip } from "../lib/trip-lifecycle";
 import { protectedProcedure } from "../trpc";
 
+/**
+ * Load one of the driver's trips
+ */
+async function findOwnTrip(db: Database, tripId: string, userId: string) {
+  const tripRecord = await db.query.trip.findFirst({
+    where: and(eq(schema.trip.id, tripId), eq(schema.trip.driverId, userId)),
+  });
+
+  if (!tripRecord) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Trip not found or you don't have permission",
+    });
+  }
+
+  return tripRecord;
+}
+
 export const tripRouter = {
   /**
    * Get a trip by ID
@@ -18,7 +42,7 @@ export const tripRouter = {
         where: eq(schema.trip.id, input.id),
         with: {
           driver: true,
-          driverRoute: true,
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
           bookings: {
             with: {
               passenger: true,
@@ -95,7 +119,7 @@ export const tripRouter = {
         where: and(...conditions),
         orderBy: [desc(schema.trip.departureTime)],
         with: {
-          driverRoute: true,
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
           bookings: {
             with: {
               passenger: true,
@@ -106,7 +130,57 @@ export const tripRouter = {
     }),
 
   /**
-   * Update a trip (only by the driver)
+   * Status history of a trip and its bookings, newest first. Visible to the
+   * driver and to passengers who booked the trip.
+   */
+  statusHistory: protectedProcedure
+    .input(z.object({ id: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const tripRecord = await ctx.db.query.trip.findFirst({
+        where: eq(schema.trip.id, input.id),
+        with: {
+          bookings: {
+            columns: { id: true, passengerId: true },
+          },
+        },
+      });
+
+      const isDriver = tripRecord?.driverId === userId;
+      const ownBookingIds = (tripRecord?.bookings ?? [])
+        .filter((b) => b.passengerId === userId)
+        .map((b) => b.id);
+
+      if (!tripRecord || (!isDriver && ownBookingIds.length === 0)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Trip not found or you don't have permission",
+        });
+      }
+
+      const history = await ctx.db.query.tripStatusHistory.findMany({
+        where: eq(schema.tripStatusHistory.tripId, input.id),
+        orderBy: [desc(schema.tripStatusHistory.createdAt)],
+        with: {
+          actor: {
+            columns: { id: true, name: true },
+          },
+        },
+      });
+
+      // Passengers see the trip's changes and their own bookings'
+      return isDriver
+        ? history
+        : history.filter(
+            (h) => !h.bookingId || ownBookingIds.includes(h.bookingId),
+          );
+    }),
+
+  /**
+   * Update a trip (only by the driver, only while scheduled)
+   * Moving the departure by more than RESCHEDULE_THRESHOLD_MINUTES asks booked
+   * passengers to confirm the new time (see `rescheduleTrip`)
    */
   update: protectedProcedure
     .input(
@@ -118,145 +192,109 @@ export const tripRouter = {
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const existingTrip = await ctx.db.query.trip.findFirst({
-        where: and(
-          eq(schema.trip.id, input.id),
-          eq(schema.trip.driverId, ctx.session.user.id),
-        ),
-      });
-
-      if (!existingTrip) {
-        throw new Error(
-          "Trip not found or you don't have permission to update it",
-        );
-      }
-
-      if (existingTrip.status !== "scheduled") {
-        throw new Error("Can only update scheduled trips");
-      }
+      const existingTrip = await findOwnTrip(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      const { departureTime } = input.data;
+      if (!departureTime) return existingTrip;
+
+      return ctx.db.transaction(async (tx) => {
+        const lockedTrip = await lockTrip(tx, input.id);
+
+        if (lockedTrip.status !== "scheduled") {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "Can only update scheduled trips",
+          });
+        }
+
+        const route = await tx.query.driverRoute.findFirst({
+          where: eq(schema.driverRoute.id, existingTrip.driverRouteId),
+        });
 
-      const [updatedTrip] = await ctx.db
-        .update(schema.trip)
-        .set(input.data)
-        .where(eq(schema.trip.id, input.id))
-        .returning();
+        if (!route) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Route not found",
+          });
+        }
 
-      return updatedTrip;
+        return rescheduleTrip(tx, lockedTrip, route, departureTime);
+      });
     }),
 
   /**
    * Start a trip (mark as in progress)
    */
   start: protectedProcedure
-    .input(z.object({ id: z.string().uuid() }))
+    .input(z.object({ id: z.uuid() }))
     .mutation(async ({ ctx, input }) => {
-      const existingTrip = await ctx.db.query.trip.findFirst({
-        where: and(
-          eq(schema.trip.id, input.id),
-          eq(schema.trip.driverId, ctx.session.user.id),
-        ),
-      });
+      await findOwnTrip(ctx.db, input.id, ctx.session.user.id);
 
-      if (!existingTrip) {
-        throw new Error("Trip not found or you don't have permission");
-      }
-
-      if (existingTrip.status !== "scheduled") {
-        throw new Error("Can only start scheduled trips");
-      }
-
-      const [updatedTrip] = await ctx.db
-        .update(schema.trip)
-        .set({ status: "in_progress" })
-        .where(eq(schema.trip.id, input.id))
-        .returning();
-
-      return updatedTrip;
+      return ctx.db.transaction(async (tx) => {
+        const { trip } = await transitionTrip(tx, input.id, "in_progress", {
+          actorId: ctx.session.user.id,
+        });
+        return trip;
+      });
     }),
 
   /**
-   * Complete a trip
+   * Complete a trip, completing its confirmed bookings
    */
   complete: protectedProcedure
-    .input(z.object({ id: z.string().uuid() }))
+    .input(z.object({ id: z.uuid() }))
     .mutation(async ({ ctx, input }) => {
-      const existingTrip = await ctx.db.query.trip.findFirst({
-        where: and(
-          eq(schema.trip.id, input.id),
-          eq(schema.trip.driverId, ctx.session.user.id),
-        ),
-      });
-
-      if (!existingTrip) {
-        throw new Error("Trip not found or you don't have permission");
-      }
-
-      if (existingTrip.status !== "in_progress") {
-        throw new Error("Can only complete trips that are in progress");
-      }
-
-      const [updatedTrip] = await ctx.db
-        .update(schema.trip)
-        .set({
-          status: "completed",
-          completedAt: new Date(),
-        })
-        .where(eq(schema.trip.id, input.id))
-        .returning();
-
-      // Also mark all confirmed bookings as completed
-      await ctx.db
-        .update(schema.booking)
-        .set({
-          status: "completed",
-          completedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(schema.booking.tripId, input.id),
-            eq(schema.booking.status, "confirmed"),
-          ),
-        );
+      await findOwnTrip(ctx.db, input.id, ctx.session.user.id);
 
-      return updatedTrip;
+      return ctx.db.transaction(async (tx) => {
+        const { trip } = await transitionTrip(tx, input.id, "completed", {
+          actorId: ctx.session.user.id,
+        });
+        return trip;
+      });
     }),
 
   /**
-   * Cancel a trip (only by the driver, only if scheduled)
+   * Cancel a trip (only by the driver, only if scheduled), cancelling its
+   * confirmed bookings and suggesting other rides to their passengers
    */
   cancel: protectedProcedure
-    .input(z.object({ id: z.uuid() }))
+    .input(
+      z.object({
+        id: z.uuid(),
+        reason: z.string().trim().min(1).max(500),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
-      const existingTrip = await ctx.db.query.trip.findFirst({
-        where: and(
-          eq(schema.trip.id, input.id),
-          eq(schema.trip.driverId, ctx.session.user.id),
-        ),
-      });
+      const existingTrip = await findOwnTrip(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      return ctx.db.transaction(async (tx) => {
+        const { trip, bookings } = await transitionTrip(
+          tx,
+          input.id,
+          "cancelled",
+          {
+            actorId: ctx.session.user.id,
+            reason: input.reason,
+          },
+        );
 
-      if (!existingTrip)
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Trip not found or you don't have permission",
+        const route = await tx.query.driverRoute.findFirst({
+          where: eq(schema.driverRoute.id, existingTrip.driverRouteId),
         });
+        if (route) {
+          await suggestRebookings(tx, trip, route, bookings, input.reason);
+        }
 
-      const [cancelledTrip] = await ctx.db
-        .update(schema.trip)
-        .set({ status: "cancelled" })
-        .where(eq(schema.trip.id, input.id))
-        .returning();
-
-      // Also cancel all confirmed bookings
-      await ctx.db
-        .update(schema.booking)
-        .set({ status: "cancelled_by_driver" })
-        .where(
-          and(
-            eq(schema.booking.tripId, input.id),
-            eq(schema.booking.status, "confirmed"),
-          ),
-        );
-
-      return cancelledTrip;
+        return trip;
+      });
     }),
 } satisfies TRPCRouterRecord;
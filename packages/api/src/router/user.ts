@@ -1,9 +1,12 @@
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod/v4";
 
-import { and, count, eq } from "@app/db";
+import { and, count, countDistinct, eq, sql } from "@app/db";
 import * as schema from "@app/db/schema";
 
+import { tripPricePerSeat } from "../lib/bookings";
+import { DRIVER_ROUTE_COLUMNS } from "../lib/route-geometry";
+import { getAvailableSeats } from "../lib/seats";
 import { protectedProcedure, publicProcedure } from "../trpc";
 
 export const userRouter = {
@@ -48,9 +51,47 @@ export const userRouter = {
           ),
         );
 
+      // Reliability as a passenger (completed vs. cancelled bookings)
+      const [passengerBookings] = await ctx.db
+        .select({
+          completed: count(
+            sql`case when ${schema.booking.status} = 'completed' then 1 end`,
+          ),
+          cancelled: count(
+            sql`case when ${schema.booking.status} = 'cancelled_by_passenger' then 1 end`,
+          ),
+          lateCancellations: count(
+            sql`case when ${schema.booking.status} = 'cancelled_by_passenger' and ${schema.booking.isLateCancellation} then 1 end`,
+          ),
+          noShows: count(
+            sql`case when ${schema.booking.status} = 'no_show_passenger' then 1 end`,
+          ),
+        })
+        .from(schema.booking)
+        .where(eq(schema.booking.passengerId, input.userId));
+
+      // Trips the user drove but didn't show up for (confirmed reports only)
+      const [driverNoShows] = await ctx.db
+        .select({ count: countDistinct(schema.booking.tripId) })
+        .from(schema.booking)
+        .innerJoin(schema.trip, eq(schema.booking.tripId, schema.trip.id))
+        .where(
+          and(
+            eq(schema.trip.driverId, input.userId),
+            eq(schema.booking.status, "no_show_driver"),
+          ),
+        );
+
       return {
         tripsCompletedAsDriver: completedAsDriverCount?.count ?? 0,
         tripsJoined: tripsJoinedCount?.count ?? 0,
+        reliability: {
+          bookingsCompleted: passengerBookings?.completed ?? 0,
+          cancellations: passengerBookings?.cancelled ?? 0,
+          lateCancellations: passengerBookings?.lateCancellations ?? 0,
+          noShows: passengerBookings?.noShows ?? 0,
+          driverNoShows: driverNoShows?.count ?? 0,
+        },
       };
     }),
 
@@ -70,9 +111,21 @@ export const userRouter = {
         ),
         orderBy: (trip, { asc }) => [asc(trip.departureTime)],
         limit: input.limit,
+        with: {
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+        },
       });
 
-      return trips;
+      const availableSeats = await getAvailableSeats(ctx.db, trips);
+
+      return trips.map((t) => ({
+        id: t.id,
+        fromName: t.driverRoute.fromName,
+        toName: t.driverRoute.toName,
+        departureTime: t.departureTime,
+        pricePerSeat: tripPricePerSeat(t),
+        availableSeats: availableSeats.get(t.id) ?? 0,
+      }));
     }),
 
   // Get completed trips for a user (as driver or passenger)
@@ -92,20 +145,23 @@ export const userRouter = {
         ),
         orderBy: (trip, { desc }) => [desc(trip.departureTime)],
         limit: input.limit,
+        with: {
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+        },
       });
 
       // Get rides completed as passenger
-      const passengerTrips = await ctx.db.query.trip.findMany({
-        where: eq(schema.trip.driverId, input.userId),
+      const passengerBookings = await ctx.db.query.booking.findMany({
+        where: and(
+          eq(schema.booking.passengerId, input.userId),
+          eq(schema.booking.status, "completed"),
+        ),
+        orderBy: (booking, { desc }) => [desc(booking.completedAt)],
+        limit: input.limit,
         with: {
-          driverRoute: true,
-          bookings: {
-            where: and(
-              eq(schema.booking.passengerId, input.userId),
-              eq(schema.booking.status, "completed"),
-            ),
+          trip: {
             with: {
-              passenger: true,
+              driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
             },
           },
         },
@@ -113,17 +169,33 @@ export const userRouter = {
 
       // Combine and sort by departure time
       const allRides = [
-        ...driverTrips.map((r) => ({ ...r, role: "driver" as const })),
-        ...passengerTrips.map((r) => ({ ...r, role: "passenger" as const })),
+        ...driverTrips.map((t) => ({
+          trip: t,
+          pricePerSeat: tripPricePerSeat(t),
+          role: "driver" as const,
+        })),
+        ...passengerBookings.map((b) => ({
+          trip: b.trip,
+          pricePerSeat: b.pricePerSeat ?? tripPricePerSeat(b.trip),
+          role: "passenger" as const,
+        })),
       ]
         .sort(
           (a, b) =>
-            new Date(b.departureTime).getTime() -
-            new Date(a.departureTime).getTime(),
+            b.trip.departureTime.getTime() - a.trip.departureTime.getTime(),
         )
         .slice(0, input.limit);
 
-      return allRides;
+      // Completed trips have no seats left to book
+      return allRides.map(({ trip, pricePerSeat, role }) => ({
+        id: trip.id,
+        fromName: trip.driverRoute.fromName,
+        toName: trip.driverRoute.toName,
+        departureTime: trip.departureTime,
+        pricePerSeat,
+        availableSeats: 0,
+        role,
+      }));
     }),
 
   // Update current user's profile
@@ -0,0 +1,385 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import type { Database } from "@app/db/client";
+import { and, count, desc, eq, inArray, lt } from "@app/db";
+import * as schema from "@app/db/schema";
+
+import { bookWithoutRequest, legPricePerSeat } from "../lib/bookings";
+import { DRIVER_ROUTE_COLUMNS, isSameDirection } from "../lib/route-geometry";
+import { getAvailableSeats, tripSeatsOffered } from "../lib/seats";
+import { promoteWaitlist } from "../lib/waitlist";
+import { protectedProcedure } from "../trpc";
+
+/**
+ * Position of a waiting entry in its trip's queue (1 = next in line)
+ */
+async function getWaitlistPosition(db: Database, entry: schema.WaitlistEntry) {
+  if (entry.status !== "waiting") return null;
+
+  const [ahead] = await db
+    .select({ count: count() })
+    .from(schema.waitlistEntry)
+    .where(
+      and(
+        eq(schema.waitlistEntry.tripId, entry.tripId),
+        eq(schema.waitlistEntry.status, "waiting"),
+        lt(schema.waitlistEntry.createdAt, entry.createdAt),
+      ),
+    );
+
+  return (ahead?.count ?? 0) + 1;
+}
+
+export const waitlistRouter = {
+  /**
+   * Join the waitlist for a full ride
+   */
+  join: protectedProcedure
+    .input(
+      z.object({
+        rideId: z.uuid(),
+        pickupPlaceId: z.string().min(1).optional(),
+        pickupName: z.string().max(256).optional(),
+        pickupLat: z.number().optional(),
+        pickupLng: z.number().optional(),
+        dropoffPlaceId: z.string().min(1).optional(),
+        dropoffName: z.string().max(256).optional(),
+        dropoffLat: z.number().optional(),
+        dropoffLng: z.number().optional(),
+        seatsRequested: z.number().int().min(1).max(10).default(1),
+        message: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const { rideId, ...entryData } = input;
+
+      const tripRecord = await ctx.db.query.trip.findFirst({
+        where: eq(schema.trip.id, rideId),
+        with: {
+          driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+        },
+      });
+
+      if (!tripRecord) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ride not found",
+        });
+      }
+
+      if (tripRecord.driverId === userId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You cannot join the waitlist for your own ride",
+        });
+      }
+
+      if (
+        tripRecord.status !== "scheduled" ||
+        tripRecord.departureTime <= new Date()
+      ) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "This ride is no longer accepting requests",
+        });
+      }
+
+      if (input.seatsRequested > tripSeatsOffered(tripRecord)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `This ride only offers ${tripSeatsOffered(tripRecord)} seats`,
+        });
+      }
+
+      const availableSeats =
+        (await getAvailableSeats(ctx.db, [tripRecord], input)).get(rideId) ?? 0;
+
+      if (input.seatsRequested <= availableSeats) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "This ride has seats available, request one instead",
+        });
+      }
+
+      if (
+        input.pickupLat !== undefined &&
+        input.pickupLng !== undefined &&
+        input.dropoffLat !== undefined &&
+        input.dropoffLng !== undefined &&
+        !isSameDirection(
+          tripRecord.driverRoute.routeGeometry,
+          { lat: input.pickupLat, lng: input.pickupLng },
+          { lat: input.dropoffLat, lng: input.dropoffLng },
+        )
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "Your pickup must come before your dropoff along the driver's route",
+        });
+      }
+
+      const existingEntry = await ctx.db.query.waitlistEntry.findFirst({
+        where: and(
+          eq(schema.waitlistEntry.tripId, rideId),
+          eq(schema.waitlistEntry.passengerId, userId),
+          inArray(schema.waitlistEntry.status, ["waiting", "offered"]),
+        ),
+      });
+
+      if (existingEntry) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "You are already on the waitlist for this ride",
+        });
+      }
+
+      const [newEntry] = await ctx.db
+        .insert(schema.waitlistEntry)
+        .values({
+          ...entryData,
+          tripId: rideId,
+          passengerId: userId,
+        })
+        // A concurrent join for the same trip got in first
+        .onConflictDoNothing()
+        .returning();
+
+      if (!newEntry) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "You are already on the waitlist for this ride",
+        });
+      }
+
+      return {
+        ...newEntry,
+        position: await getWaitlistPosition(ctx.db, newEntry),
+      };
+    }),
+
+  /**
+   * Get the current user's waitlist entry (and position) for a ride
+   */
+  forRide: protectedProcedure
+    .input(z.object({ rideId: z.uuid() }))
+    .query(async ({ ctx, input }) => {
+      const entry = await ctx.db.query.waitlistEntry.findFirst({
+        where: and(
+          eq(schema.waitlistEntry.tripId, input.rideId),
+          eq(schema.waitlistEntry.passengerId, ctx.session.user.id),
+          inArray(schema.waitlistEntry.status, ["waiting", "offered"]),
+        ),
+      });
+
+      if (!entry) return null;
+
+      return {
+        ...entry,
+        position: await getWaitlistPosition(ctx.db, entry),
+      };
+    }),
+
+  /**
+   * Get all waitlist entries for the current user
+   */
+  myEntries: protectedProcedure.query(async ({ ctx }) => {
+    const entries = await ctx.db.query.waitlistEntry.findMany({
+      where: eq(schema.waitlistEntry.passengerId, ctx.session.user.id),
+      orderBy: [desc(schema.waitlistEntry.createdAt)],
+      with: {
+        trip: {
+          with: {
+            driver: true,
+            driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+          },
+        },
+      },
+    });
+
+    return Promise.all(
+      entries.map(async (entry) => ({
+        id: entry.id,
+        status: entry.status,
+        seatsRequested: entry.seatsRequested,
+        pickupName: entry.pickupName,
+        dropoffName: entry.dropoffName,
+        offerExpiresAt: entry.offerExpiresAt,
+        createdAt: entry.createdAt,
+        position: await getWaitlistPosition(ctx.db, entry),
+        ride: {
+          id: entry.trip.id,
+          fromName: entry.trip.driverRoute.fromName,
+          toName: entry.trip.driverRoute.toName,
+          departureTime: entry.trip.departureTime,
+          driver: {
+            id: entry.trip.driver.id,
+            name: entry.trip.driver.name,
+            image: entry.trip.driver.image,
+          },
+        },
+      })),
+    );
+  }),
+
+  /**
+   * Accept a held seat offer, turning it into a confirmed booking (with an
+   * accepted request and a conversation, like any other booking)
+   */
+  acceptOffer: protectedProcedure
+    .input(z.object({ entryId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.transaction(async (tx) => {
+        const [entry] = await tx
+          .select()
+          .from(schema.waitlistEntry)
+          .where(
+            and(
+              eq(schema.waitlistEntry.id, input.entryId),
+              eq(schema.waitlistEntry.passengerId, ctx.session.user.id),
+            ),
+          )
+          .for("update");
+
+        if (!entry) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Waitlist entry not found or you don't have permission",
+          });
+        }
+
+        if (
+          entry.status !== "offered" ||
+          !entry.offerExpiresAt ||
+          entry.offerExpiresAt <= new Date()
+        ) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "This seat offer is no longer available",
+          });
+        }
+
+        // Release the hold first so the reservation below can claim it
+        await tx
+          .update(schema.waitlistEntry)
+          .set({ status: "accepted" })
+          .where(eq(schema.waitlistEntry.id, entry.id));
+
+        const tripRecord = await tx.query.trip.findFirst({
+          where: eq(schema.trip.id, entry.tripId),
+          with: {
+            driverRoute: { columns: DRIVER_ROUTE_COLUMNS },
+          },
+        });
+
+        if (!tripRecord) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Ride not found",
+          });
+        }
+
+        const { booking: newBooking } = await bookWithoutRequest(
+          tx,
+          tripRecord,
+          {
+            passengerId: entry.passengerId,
+            pickupPlaceId: entry.pickupPlaceId,
+            pickupName: entry.pickupName,
+            pickupLat: entry.pickupLat,
+            pickupLng: entry.pickupLng,
+            dropoffPlaceId: entry.dropoffPlaceId,
+            dropoffName: entry.dropoffName,
+            dropoffLat: entry.dropoffLat,
+            dropoffLng: entry.dropoffLng,
+            seatsRequested: entry.seatsRequested,
+            message: entry.message,
+          },
+          legPricePerSeat(tripRecord, entry),
+        );
+
+        await tx
+          .update(schema.waitlistEntry)
+          .set({ bookingId: newBooking.id })
+          .where(eq(schema.waitlistEntry.id, entry.id));
+
+        return newBooking;
+      });
+    }),
+
+  /**
+   * Decline a held seat offer, passing it to the next person in line
+   */
+  declineOffer: protectedProcedure
+    .input(z.object({ entryId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.transaction(async (tx) => {
+        const [declinedEntry] = await tx
+          .update(schema.waitlistEntry)
+          .set({ status: "declined" })
+          .where(
+            and(
+              eq(schema.waitlistEntry.id, input.entryId),
+              eq(schema.waitlistEntry.passengerId, ctx.session.user.id),
+              eq(schema.waitlistEntry.status, "offered"),
+            ),
+          )
+          .returning();
+
+        if (!declinedEntry) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No open seat offer found",
+          });
+        }
+
+        await promoteWaitlist(tx, declinedEntry.tripId);
+
+        return declinedEntry;
+      });
+    }),
+
+  /**
+   * Leave the waitlist for a ride
+   */
+  leave: protectedProcedure
+    .input(z.object({ entryId: z.uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.transaction(async (tx) => {
+        const [previous] = await tx
+          .select({ status: schema.waitlistEntry.status })
+          .from(schema.waitlistEntry)
+          .where(
+            and(
+              eq(schema.waitlistEntry.id, input.entryId),
+              eq(schema.waitlistEntry.passengerId, ctx.session.user.id),
+              inArray(schema.waitlistEntry.status, ["waiting", "offered"]),
+            ),
+          )
+          .for("update");
+
+        if (!previous) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Waitlist entry not found or you don't have permission",
+          });
+        }
+
+        const [cancelledEntry] = await tx
+          .update(schema.waitlistEntry)
+          .set({ status: "cancelled" })
+          .where(eq(schema.waitlistEntry.id, input.entryId))
+          .returning();
+
+        // Leaving with an open offer frees the held seat for the next person
+        if (cancelledEntry && previous.status === "offered") {
+          await promoteWaitlist(tx, cancelledEntry.tripId);
+        }
+
+        return cancelledEntry;
+      });
+    }),
+} satisfies TRPCRouterRecord;
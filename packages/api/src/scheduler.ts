@@ -0,0 +1,89 @@
+import type { Database } from "@app/db/client";
+
+import { expireStaleOffers, expireStaleRequests } from "./lib/expiry";
+import {
+  finalizeExpiredNoShowReports,
+  reportUnboardedPassengers,
+} from "./lib/no-shows";
+import { materializeRecurringTrips } from "./lib/recurring-trips";
+import { releaseUnconfirmedReschedules } from "./lib/reschedule";
+import { advanceDueTrips } from "./lib/trip-lifecycle";
+import { processExpiredWaitlistOffers } from "./lib/waitlist";
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: (db: Database) => Promise<unknown>;
+}
+
+const scheduledJobs: ScheduledJob[] = [
+  {
+    name: "waitlist-offers",
+    intervalMs: 60 * 1000,
+    run: processExpiredWaitlistOffers,
+  },
+  {
+    name: "expire-requests",
+    intervalMs: 5 * 60 * 1000,
+    run: expireStaleRequests,
+  },
+  {
+    name: "expire-offers",
+    intervalMs: 5 * 60 * 1000,
+    run: expireStaleOffers,
+  },
+  {
+    name: "recurring-trips",
+    intervalMs: 60 * 60 * 1000,
+    run: materializeRecurringTrips,
+  },
+  {
+    name: "advance-trips",
+    intervalMs: 5 * 60 * 1000,
+    run: advanceDueTrips,
+  },
+  {
+    name: "reschedule-confirmations",
+    intervalMs: 5 * 60 * 1000,
+    run: releaseUnconfirmedReschedules,
+  },
+  {
+    name: "no-show-reports",
+    intervalMs: 15 * 60 * 1000,
+    run: finalizeExpiredNoShowReports,
+  },
+  {
+    name: "unboarded-passengers",
+    intervalMs: 5 * 60 * 1000,
+    run: reportUnboardedPassengers,
+  },
+];
+
+/**
+ * Run the background jobs on their intervals.
+ *
+ * Jobs must be idempotent and safe to run from several server instances at
+ * once. A job skips a tick while its previous run is still in flight.
+ * Returns a function that stops all jobs.
+ */
+export function startScheduledJobs(db: Database) {
+  const timers = scheduledJobs.map((job) => {
+    let running = false;
+
+    return setInterval(() => {
+      if (running) return;
+      running = true;
+
+      job
+        .run(db)
+        .catch((error: unknown) => {
+          console.error(`[JOB] ${job.name} failed`, error);
+        })
+        .finally(() => {
+          running = false;
+        });
+    }, job.intervalMs);
+  });
+
+  return () => timers.forEach((timer) => clearInterval(timer));
+}
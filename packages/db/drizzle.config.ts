@@ -11,4 +11,6 @@ export default {
   dialect: "postgresql",
   dbCredentials: { url: nonPoolingUrl },
   casing: "snake_case",
+  // PostGIS owns spatial_ref_sys; leave it out of pushes
+  extensionsFilters: ["postgis"],
 } satisfies Config;
@@ -1,5 +1,8 @@
-import { relations } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import {
+  boolean,
+  date,
   doublePrecision,
   index,
   integer,
@@ -7,6 +10,7 @@ import {
   pgTable,
   text,
   timestamp,
+  uniqueIndex,
   uuid,
   varchar,
 } from "drizzle-orm/pg-core";
@@ -16,8 +20,10 @@ import { z } from "zod/v4";
 import { user } from "./auth-schema";
 import { conversation } from "./conversation";
 import { driverRoute, passengerRequest } from "./driver-route";
+import { noShowReport } from "./no-show";
 import { driverOffer } from "./passenger-route";
 import { review } from "./review";
+import { waitlistEntry } from "./waitlist";
 
 // ============================================================================
 // ENUMS
@@ -39,6 +45,16 @@ export const bookingStatusEnum = pgEnum("booking_status", [
   "cancelled_by_passenger",
 ]);
 
+export const rescheduleConfirmationStatusEnum = pgEnum(
+  "reschedule_confirmation_status",
+  [
+    "pending", // Waiting for the passenger to respond
+    "accepted", // The passenger keeps their seat at the new time
+    "declined", // The passenger cancelled without penalty
+    "released", // No response before the deadline; the booking was released
+  ],
+);
+
 // ============================================================================
 // TRIP TABLE - Each occurrence of a driver route
 // ============================================================================
@@ -63,6 +79,27 @@ export const trip = pgTable(
       withTimezone: true,
     }).notNull(),
 
+    // Local date of the recurrence occurrence this trip was generated for;
+    // null for one-off trips
+    occurrenceDate: date("occurrence_date"),
+
+    // Round trips: the trip on the return route that brings passengers back
+    returnTripId: uuid("return_trip_id").references(
+      (): AnyPgColumn => trip.id,
+      {
+        onDelete: "set null",
+      },
+    ),
+    // Set on the return trip of a round trip, pointing at the outbound trip
+    outboundTripId: uuid("outbound_trip_id").references(
+      (): AnyPgColumn => trip.id,
+      { onDelete: "set null" },
+    ),
+
+    // Capacity and price for this occurrence only; null uses the route's
+    seatsOffered: integer("seats_offered"),
+    pricePerSeat: integer("price_per_seat"), // in cents
+
     // If created from accepting a driver offer on a passenger route
     driverOfferId: uuid("driver_offer_id").references(() => driverOffer.id, {
       onDelete: "set null",
@@ -86,6 +123,11 @@ export const trip = pgTable(
     index("trip_departure_time_idx").on(table.departureTime),
     index("trip_status_idx").on(table.status),
     index("trip_driver_offer_id_idx").on(table.driverOfferId),
+    // Each occurrence of a recurring route is materialized once
+    uniqueIndex("trip_occurrence_unique").on(
+      table.driverRouteId,
+      table.occurrenceDate,
+    ),
   ],
 );
 
@@ -103,6 +145,9 @@ export const tripRelations = relations(trip, ({ one, many }) => ({
     references: [driverOffer.id],
   }),
   bookings: many(booking),
+  waitlist: many(waitlistEntry),
+  statusHistory: many(tripStatusHistory),
+  rescheduleConfirmations: many(rescheduleConfirmation),
 }));
 
 // ============================================================================
@@ -142,6 +187,20 @@ export const booking = pgTable(
 
     status: bookingStatusEnum("status").notNull().default("confirmed"),
 
+    // PIN the passenger shows the driver at pickup to check in
+    checkInCode: varchar("check_in_code", { length: 6 })
+      .notNull()
+      .default(sql`lpad(floor(random() * 1000000)::int::text, 6, '0')`),
+    // Set when the driver checks the passenger in
+    boardedAt: timestamp("boarded_at", { withTimezone: true }),
+
+    // Cancellation details (set when either party cancels)
+    cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    cancellationReason: text("cancellation_reason"),
+    isLateCancellation: boolean("is_late_cancellation")
+      .notNull()
+      .default(false), // cancelled inside the route's free cancellation window
+
     completedAt: timestamp("completed_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -174,8 +233,169 @@ export const bookingRelations = relations(booking, ({ one, many }) => ({
   }),
   conversations: many(conversation),
   reviews: many(review),
+  statusHistory: many(tripStatusHistory),
+  noShowReport: one(noShowReport),
+  rescheduleConfirmations: many(rescheduleConfirmation),
+  rebookingSuggestions: many(rebookingSuggestion),
 }));
 
+// ============================================================================
+// TRIP STATUS HISTORY - Audit log of trip and booking status transitions
+// ============================================================================
+
+export const tripStatusHistory = pgTable(
+  "trip_status_history",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    tripId: uuid("trip_id")
+      .notNull()
+      .references(() => trip.id, { onDelete: "cascade" }),
+    // Set when the change was to one booking on the trip
+    bookingId: uuid("booking_id").references(() => booking.id, {
+      onDelete: "cascade",
+    }),
+
+    // Trip or booking status values
+    fromStatus: varchar("from_status", { length: 32 }).notNull(),
+    toStatus: varchar("to_status", { length: 32 }).notNull(),
+
+    // Who made the change; null for automatic changes
+    actorId: text("actor_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    reason: text("reason"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("trip_status_history_trip_id_idx").on(table.tripId),
+    index("trip_status_history_booking_id_idx").on(table.bookingId),
+  ],
+);
+
+export const tripStatusHistoryRelations = relations(
+  tripStatusHistory,
+  ({ one }) => ({
+    trip: one(trip, {
+      fields: [tripStatusHistory.tripId],
+      references: [trip.id],
+    }),
+    booking: one(booking, {
+      fields: [tripStatusHistory.bookingId],
+      references: [booking.id],
+    }),
+    actor: one(user, {
+      fields: [tripStatusHistory.actorId],
+      references: [user.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// RESCHEDULE CONFIRMATION - A booked passenger's answer to a departure change
+// ============================================================================
+
+export const rescheduleConfirmation = pgTable(
+  "reschedule_confirmation",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    tripId: uuid("trip_id")
+      .notNull()
+      .references(() => trip.id, { onDelete: "cascade" }),
+    bookingId: uuid("booking_id")
+      .notNull()
+      .references(() => booking.id, { onDelete: "cascade" }),
+
+    previousDepartureTime: timestamp("previous_departure_time", {
+      withTimezone: true,
+    }).notNull(),
+    newDepartureTime: timestamp("new_departure_time", {
+      withTimezone: true,
+    }).notNull(),
+
+    status: rescheduleConfirmationStatusEnum("status")
+      .notNull()
+      .default("pending"),
+    // Pending confirmations are released after this
+    respondBy: timestamp("respond_by", { withTimezone: true }).notNull(),
+    respondedAt: timestamp("responded_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("reschedule_confirmation_trip_id_idx").on(table.tripId),
+    index("reschedule_confirmation_booking_id_idx").on(table.bookingId),
+    index("reschedule_confirmation_status_idx").on(table.status),
+  ],
+);
+
+export const rescheduleConfirmationRelations = relations(
+  rescheduleConfirmation,
+  ({ one }) => ({
+    trip: one(trip, {
+      fields: [rescheduleConfirmation.tripId],
+      references: [trip.id],
+    }),
+    booking: one(booking, {
+      fields: [rescheduleConfirmation.bookingId],
+      references: [booking.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// REBOOKING SUGGESTION - An alternative trip for a booking the driver cancelled
+// ============================================================================
+
+export const rebookingSuggestion = pgTable(
+  "rebooking_suggestion",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    // The cancelled booking
+    bookingId: uuid("booking_id")
+      .notNull()
+      .references(() => booking.id, { onDelete: "cascade" }),
+    // The suggested trip
+    tripId: uuid("trip_id")
+      .notNull()
+      .references(() => trip.id, { onDelete: "cascade" }),
+
+    // Best match first
+    rank: integer("rank").notNull(),
+    pickupDistanceKm: doublePrecision("pickup_distance_km").notNull(),
+    dropoffDistanceKm: doublePrecision("dropoff_distance_km").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("rebooking_suggestion_unique").on(
+      table.bookingId,
+      table.tripId,
+    ),
+    index("rebooking_suggestion_trip_id_idx").on(table.tripId),
+  ],
+);
+
+export const rebookingSuggestionRelations = relations(
+  rebookingSuggestion,
+  ({ one }) => ({
+    booking: one(booking, {
+      fields: [rebookingSuggestion.bookingId],
+      references: [booking.id],
+    }),
+    trip: one(trip, {
+      fields: [rebookingSuggestion.tripId],
+      references: [trip.id],
+    }),
+  }),
+);
+
 // ============================================================================
 // ZOD SCHEMAS
 // ============================================================================
@@ -198,6 +418,11 @@ export const CreateBookingSchema = createInsertSchema(booking, {
 }).omit({
   id: true,
   status: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  isLateCancellation: true,
+  checkInCode: true,
+  boardedAt: true,
   completedAt: true,
   createdAt: true,
   updatedAt: true,
@@ -214,5 +439,8 @@ export type Trip = typeof trip.$inferSelect;
 export type NewTrip = typeof trip.$inferInsert;
 export type Booking = typeof booking.$inferSelect;
 export type NewBooking = typeof booking.$inferInsert;
+export type TripStatusHistory = typeof tripStatusHistory.$inferSelect;
+export type RebookingSuggestion = typeof rebookingSuggestion.$inferSelect;
+export type RescheduleConfirmation = typeof rescheduleConfirmation.$inferSelect;
 export type TripStatus = (typeof tripStatusEnum.enumValues)[number];
 export type BookingStatus = (typeof bookingStatusEnum.enumValues)[number];
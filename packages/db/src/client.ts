@@ -21,3 +21,6 @@ export const db = drizzle({
   schema,
   casing: "snake_case",
 });
+
+export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
@@ -1,5 +1,6 @@
 import { relations } from "drizzle-orm";
 import {
+  boolean,
   index,
   pgTable,
   text,
@@ -49,6 +50,10 @@ export const message = pgTable(
 
     content: text("content").notNull(),
 
+    // Generated by the app (e.g. a departure change) rather than typed by the
+    // sender; the sender is the user whose action or booking it's about
+    isSystem: boolean("is_system").notNull().default(false),
+
     // When the recipient read this message (null = unread)
     readAt: timestamp("read_at", { withTimezone: true }),
 
@@ -99,6 +104,7 @@ export const CreateMessageSchema = createInsertSchema(message, {
   content: z.string().min(1).max(2000),
 }).omit({
   id: true,
+  isSystem: true,
   readAt: true,
   createdAt: true,
 });
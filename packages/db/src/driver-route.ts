@@ -1,7 +1,9 @@
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import type { LineString } from "geojson";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
   boolean,
+  date,
   doublePrecision,
   index,
   integer,
@@ -11,6 +13,7 @@ import {
   text,
   time,
   timestamp,
+  uniqueIndex,
   uuid,
   varchar,
 } from "drizzle-orm/pg-core";
@@ -18,7 +21,8 @@ import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod/v4";
 
 import { user } from "./auth-schema";
-import { trip } from "./booking";
+import { booking, trip } from "./booking";
+import { geography } from "./postgis";
 
 // ============================================================================
 // ENUMS
@@ -30,11 +34,17 @@ export const driverRouteStatusEnum = pgEnum("driver_route_status", [
   "closed", // No longer active
 ]);
 
+export const pricingModeEnum = pgEnum("pricing_mode", [
+  "flat", // Every passenger pays pricePerSeat
+  "distance", // Passengers pay for the share of the route they ride
+]);
+
 export const passengerRequestStatusEnum = pgEnum("passenger_request_status", [
   "pending",
   "accepted",
   "rejected",
   "cancelled",
+  "expired", // Driver didn't respond before the deadline or departure
 ]);
 
 // ============================================================================
@@ -65,12 +75,49 @@ export const driverRoute = pgTable(
 
     // Route geometry (planned route)
     routeGeometry: jsonb("route_geometry").notNull().$type<LineString>(),
+
+    // Spatial copies of the endpoints and route, kept in sync by Postgres,
+    // for proximity searches in SQL
+    fromPoint: geography("from_point", { type: "Point" }).generatedAlwaysAs(
+      sql`ST_SetSRID(ST_MakePoint(from_lng, from_lat), 4326)::geography`,
+    ),
+    toPoint: geography("to_point", { type: "Point" }).generatedAlwaysAs(
+      sql`ST_SetSRID(ST_MakePoint(to_lng, to_lat), 4326)::geography`,
+    ),
+    routePath: geography("route_path", {
+      type: "LineString",
+    }).generatedAlwaysAs(
+      sql`ST_SetSRID(ST_GeomFromGeoJSON(route_geometry), 4326)::geography`,
+    ),
     distanceKm: doublePrecision("distance_km"),
     durationMinutes: integer("duration_minutes"),
 
     // Capacity & pricing (defaults for trips)
     seatsOffered: integer("seats_offered").notNull().default(3),
-    pricePerSeat: integer("price_per_seat"), // in cents
+    pricePerSeat: integer("price_per_seat"), // in cents, for the whole route
+    pricingMode: pricingModeEnum("pricing_mode").notNull().default("flat"),
+    minimumFare: integer("minimum_fare"), // in cents, distance pricing only
+
+    // Cancellation policy: passengers can cancel for free up to this many
+    // hours before departure, later cancellations are flagged as late
+    freeCancellationHours: integer("free_cancellation_hours")
+      .notNull()
+      .default(24),
+
+    // Hours the driver has to answer a request before it expires on its own;
+    // null means requests stay open until departure
+    requestResponseHours: integer("request_response_hours"),
+
+    // Instant booking: requests that pass every rule set below are confirmed
+    // straight away, anything else waits for the driver as usual
+    instantBook: boolean("instant_book").notNull().default(false),
+    instantBookMinRating: doublePrecision("instant_book_min_rating"), // 1-5, null = any
+    instantBookRequireVerifiedPhone: boolean(
+      "instant_book_require_verified_phone",
+    )
+      .notNull()
+      .default(false),
+    instantBookMaxDetourKm: doublePrecision("instant_book_max_detour_km"), // null = any
 
     // Vehicle amenities
     luggageSize: varchar("luggage_size", { length: 16 }), // 'small', 'medium', 'large'
@@ -86,6 +133,13 @@ export const driverRoute = pgTable(
     baseTime: time("base_time"), // e.g., "08:00:00" - time of day for recurring trips
     validFrom: timestamp("valid_from", { withTimezone: true }), // when recurrence starts
     validUntil: timestamp("valid_until", { withTimezone: true }), // when recurrence ends
+    timezone: varchar("timezone", { length: 64 }).notNull().default("UTC"), // IANA zone baseTime is in
+
+    // Round trips: the reversed route this route's trips come back on
+    returnRouteId: uuid("return_route_id").references(
+      (): AnyPgColumn => driverRoute.id,
+      { onDelete: "set null" },
+    ),
 
     // For one-time trips without recurrence
     description: text("description"),
@@ -102,6 +156,9 @@ export const driverRoute = pgTable(
     index("driver_route_driver_id_idx").on(table.driverId),
     index("driver_route_from_place_id_idx").on(table.fromPlaceId),
     index("driver_route_to_place_id_idx").on(table.toPlaceId),
+    index("driver_route_from_point_idx").using("gist", table.fromPoint),
+    index("driver_route_to_point_idx").using("gist", table.toPoint),
+    index("driver_route_route_path_idx").using("gist", table.routePath),
   ],
 );
 
@@ -112,8 +169,139 @@ export const driverRouteRelations = relations(driverRoute, ({ one, many }) => ({
   }),
   trips: many(trip),
   requests: many(passengerRequest),
+  exceptions: many(driverRouteException),
+  overrides: many(driverRouteOverride),
+  stops: many(driverRouteStop),
 }));
 
+// ============================================================================
+// DRIVER ROUTE STOP TABLE (Intermediate pickup/dropoff points, in order)
+// ============================================================================
+
+export const driverRouteStop = pgTable(
+  "driver_route_stop",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    driverRouteId: uuid("driver_route_id")
+      .notNull()
+      .references(() => driverRoute.id, { onDelete: "cascade" }),
+
+    // Order along the route, starting at 0
+    position: integer("position").notNull(),
+
+    placeId: varchar("place_id", { length: 256 }).notNull(),
+    name: varchar("name", { length: 256 }).notNull(),
+    address: text("address"),
+    lat: doublePrecision("lat").notNull(),
+    lng: doublePrecision("lng").notNull(),
+
+    // Where the stop falls on routeGeometry, and roughly when the driver
+    // gets there (minutes after departure; null when unknown)
+    alongRouteKm: doublePrecision("along_route_km").notNull(),
+    offsetMinutes: integer("offset_minutes"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("driver_route_stop_position_unique").on(
+      table.driverRouteId,
+      table.position,
+    ),
+  ],
+);
+
+export const driverRouteStopRelations = relations(
+  driverRouteStop,
+  ({ one }) => ({
+    driverRoute: one(driverRoute, {
+      fields: [driverRouteStop.driverRouteId],
+      references: [driverRoute.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// DRIVER ROUTE EXCEPTION TABLE (Dates a recurring route doesn't run)
+// ============================================================================
+
+export const driverRouteException = pgTable(
+  "driver_route_exception",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    driverRouteId: uuid("driver_route_id")
+      .notNull()
+      .references(() => driverRoute.id, { onDelete: "cascade" }),
+
+    // Inclusive range of local occurrence dates to skip, e.g. a holiday
+    startDate: date("start_date").notNull(),
+    endDate: date("end_date").notNull(),
+    reason: varchar("reason", { length: 256 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("driver_route_exception_driver_route_id_idx").on(table.driverRouteId),
+  ],
+);
+
+export const driverRouteExceptionRelations = relations(
+  driverRouteException,
+  ({ one }) => ({
+    driverRoute: one(driverRoute, {
+      fields: [driverRouteException.driverRouteId],
+      references: [driverRoute.id],
+    }),
+  }),
+);
+
+// ============================================================================
+// DRIVER ROUTE OVERRIDE TABLE (One occurrence that differs from the rule)
+// ============================================================================
+
+export const driverRouteOverride = pgTable(
+  "driver_route_override",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    driverRouteId: uuid("driver_route_id")
+      .notNull()
+      .references(() => driverRoute.id, { onDelete: "cascade" }),
+    occurrenceDate: date("occurrence_date").notNull(),
+
+    // Null fields fall back to the route's settings
+    baseTime: time("base_time"),
+    seatsOffered: integer("seats_offered"),
+    pricePerSeat: integer("price_per_seat"), // in cents
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("driver_route_override_occurrence_unique").on(
+      table.driverRouteId,
+      table.occurrenceDate,
+    ),
+  ],
+);
+
+export const driverRouteOverrideRelations = relations(
+  driverRouteOverride,
+  ({ one }) => ({
+    driverRoute: one(driverRoute, {
+      fields: [driverRouteOverride.driverRouteId],
+      references: [driverRoute.id],
+    }),
+  }),
+);
+
 // ============================================================================
 // PASSENGER REQUEST TABLE (Passenger requesting to join a driver's route)
 // ============================================================================
@@ -146,6 +334,15 @@ export const passengerRequest = pgTable(
     seatsRequested: integer("seats_requested").notNull().default(1),
     message: text("message"),
     status: passengerRequestStatusEnum("status").notNull().default("pending"),
+    // Pending requests expire at this time (see the route's requestResponseHours)
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+
+    // Set on the return leg of a round-trip request, pointing at the
+    // outbound leg requested together with it
+    outboundRequestId: uuid("outbound_request_id").references(
+      (): AnyPgColumn => passengerRequest.id,
+      { onDelete: "set null" },
+    ),
 
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -160,12 +357,16 @@ export const passengerRequest = pgTable(
     index("passenger_request_passenger_id_idx").on(table.passengerId),
     index("passenger_request_trip_id_idx").on(table.tripId),
     index("passenger_request_status_idx").on(table.status),
+    // One open request per passenger per trip
+    uniqueIndex("passenger_request_open_unique")
+      .on(table.tripId, table.passengerId)
+      .where(sql`${table.status} in ('pending', 'accepted')`),
   ],
 );
 
 export const passengerRequestRelations = relations(
   passengerRequest,
-  ({ one }) => ({
+  ({ one, many }) => ({
     driverRoute: one(driverRoute, {
       fields: [passengerRequest.driverRouteId],
       references: [driverRoute.id],
@@ -178,6 +379,7 @@ export const passengerRequestRelations = relations(
       fields: [passengerRequest.passengerId],
       references: [user.id],
     }),
+    bookings: many(booking),
   }),
 );
 
@@ -206,6 +408,14 @@ export const CreateDriverRouteSchema = createInsertSchema(driverRoute, {
   durationMinutes: z.number().int().optional(),
   seatsOffered: z.number().int().min(1).max(10).default(3),
   pricePerSeat: z.number().int().min(0).optional(),
+  pricingMode: z.enum(["flat", "distance"]).optional(),
+  minimumFare: z.number().int().min(0).nullable().optional(),
+  freeCancellationHours: z.number().int().min(0).max(168).optional(),
+  requestResponseHours: z.number().int().min(1).max(168).nullable().optional(),
+  instantBook: z.boolean().optional(),
+  instantBookMinRating: z.number().min(1).max(5).nullable().optional(),
+  instantBookRequireVerifiedPhone: z.boolean().optional(),
+  instantBookMaxDetourKm: z.number().min(0).nullable().optional(),
   luggageSize: z.enum(["small", "medium", "large"]).optional(),
   hasWinterTires: z.boolean().optional(),
   allowsBikes: z.boolean().optional(),
@@ -217,10 +427,12 @@ export const CreateDriverRouteSchema = createInsertSchema(driverRoute, {
   baseTime: z.string().optional(), // "HH:MM:SS" format
   validFrom: z.coerce.date().optional(),
   validUntil: z.coerce.date().optional(),
+  timezone: z.string().min(1).max(64).optional(),
   description: z.string().max(1000).optional(),
 }).omit({
   id: true,
   driverId: true,
+  returnRouteId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -235,10 +447,21 @@ export const CreatePassengerRequestSchema = createInsertSchema(
   id: true,
   passengerId: true,
   status: true,
+  expiresAt: true,
+  outboundRequestId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const DriverRouteStopInputSchema = z.object({
+  placeId: z.string().min(1),
+  name: z.string().min(1).max(256),
+  address: z.string().max(500).optional(),
+  lat: z.number(),
+  lng: z.number(),
+  offsetMinutes: z.number().int().min(0).optional(),
+});
+
 // Select schemas
 export const DriverRouteSchema = createSelectSchema(driverRoute);
 export const PassengerRequestSchema = createSelectSchema(passengerRequest);
@@ -251,6 +474,9 @@ export type DriverRoute = typeof driverRoute.$inferSelect;
 export type NewDriverRoute = typeof driverRoute.$inferInsert;
 export type PassengerRequest = typeof passengerRequest.$inferSelect;
 export type NewPassengerRequest = typeof passengerRequest.$inferInsert;
+export type DriverRouteException = typeof driverRouteException.$inferSelect;
+export type DriverRouteOverride = typeof driverRouteOverride.$inferSelect;
+export type DriverRouteStop = typeof driverRouteStop.$inferSelect;
 export type DriverRouteStatus =
   (typeof driverRouteStatusEnum.enumValues)[number];
 export type PassengerRequestStatus =
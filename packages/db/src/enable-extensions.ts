@@ -0,0 +1,26 @@
+/**
+ * Enable the Postgres extensions the schema depends on. `drizzle-kit push`
+ * doesn't create extensions, and the postgis image only enables PostGIS when
+ * it initializes a fresh data volume, so `pnpm db:push` runs this first.
+ *
+ * The database must have PostGIS 3.4+ installed.
+ */
+import { Pool } from "pg";
+
+const connectionString = process.env.POSTGRES_URL;
+
+if (!connectionString) {
+  throw new Error("Missing POSTGRES_URL environment variable");
+}
+
+const pool = new Pool({
+  connectionString: connectionString.replace(":6543", ":5432"),
+  ssl: false,
+});
+
+try {
+  await pool.query("CREATE EXTENSION IF NOT EXISTS postgis");
+  console.log("PostGIS extension enabled");
+} finally {
+  await pool.end();
+}
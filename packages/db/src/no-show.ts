@@ -0,0 +1,118 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+
+import { user } from "./auth-schema";
+import { booking, trip } from "./booking";
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const noShowReportTypeEnum = pgEnum("no_show_report_type", [
+  "passenger_no_show", // The driver reports a passenger who didn't turn up
+  "driver_no_show", // A passenger reports a driver who didn't turn up
+]);
+
+export const noShowReportStatusEnum = pgEnum("no_show_report_status", [
+  "unconfirmed", // Filed by the system; dismissed unless the reporter confirms it by contestDeadline
+  "pending", // Open to contest; upheld once contestDeadline passes
+  "contested", // The reported user disputes it; dismissed at resolveBy unless settled first
+  "upheld", // Final: the booking is marked as a no-show
+  "dismissed", // Final: withdrawn by the reporter
+]);
+
+// ============================================================================
+// NO-SHOW REPORT TABLE - A reported no-show on one booking
+// ============================================================================
+
+export const noShowReport = pgTable(
+  "no_show_report",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    bookingId: uuid("booking_id")
+      .notNull()
+      .references(() => booking.id, { onDelete: "cascade" }),
+    tripId: uuid("trip_id")
+      .notNull()
+      .references(() => trip.id, { onDelete: "cascade" }),
+
+    type: noShowReportTypeEnum("type").notNull(),
+    status: noShowReportStatusEnum("status").notNull().default("pending"),
+
+    reporterId: text("reporter_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    reportedUserId: text("reported_user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    details: text("details"),
+    // The reported user's side of the story when contesting
+    response: text("response"),
+
+    contestDeadline: timestamp("contest_deadline", {
+      withTimezone: true,
+    }).notNull(),
+    // Set when contested: the report is dismissed then if still unsettled
+    resolveBy: timestamp("resolve_by", { withTimezone: true }),
+    resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    // One report per booking, whichever side files it first
+    uniqueIndex("no_show_report_booking_unique").on(table.bookingId),
+    index("no_show_report_trip_id_idx").on(table.tripId),
+    index("no_show_report_status_idx").on(table.status),
+  ],
+);
+
+export const noShowReportRelations = relations(noShowReport, ({ one }) => ({
+  booking: one(booking, {
+    fields: [noShowReport.bookingId],
+    references: [booking.id],
+  }),
+  trip: one(trip, {
+    fields: [noShowReport.tripId],
+    references: [trip.id],
+  }),
+  reporter: one(user, {
+    fields: [noShowReport.reporterId],
+    references: [user.id],
+    relationName: "noShowReporter",
+  }),
+  reportedUser: one(user, {
+    fields: [noShowReport.reportedUserId],
+    references: [user.id],
+    relationName: "noShowReported",
+  }),
+}));
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+export const NoShowReportSchema = createSelectSchema(noShowReport);
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type NoShowReport = typeof noShowReport.$inferSelect;
+export type NewNoShowReport = typeof noShowReport.$inferInsert;
+export type NoShowReportStatus =
+  (typeof noShowReportStatusEnum.enumValues)[number];
@@ -0,0 +1,82 @@
+import { relations } from "drizzle-orm";
+import {
+  index,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+
+import { user } from "./auth-schema";
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const notificationTypeEnum = pgEnum("notification_type", [
+  "request_expired", // A pending ride request ran out of time
+  "offer_expired", // A pending driver offer ran out of time
+  "offer_received", // A driver made an offer on a ride wanted listing
+  "offer_accepted", // The passenger accepted a driver's offer
+  "offer_rejected", // The passenger turned down a driver's offer
+  "trip_cancelled", // The driver cancelled a trip the passenger was booked on
+  "trip_changed", // The driver changed the departure of a booked trip
+  "no_show_reported", // Someone reported the user as a no-show
+  "no_show_resolved", // A no-show report involving the user was settled
+  "reschedule_proposed", // The driver moved a booked trip; confirm or cancel
+  "booking_released", // A booking was released after a departure change
+  "waitlist_offered", // A seat is held for a waitlisted passenger to accept
+  "waitlist_closed", // The trip a user was waitlisted for departed or was cancelled
+]);
+
+// ============================================================================
+// NOTIFICATION TABLE - In-app notifications for a user
+// ============================================================================
+
+export const notification = pgTable(
+  "notification",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    type: notificationTypeEnum("type").notNull(),
+    title: varchar("title", { length: 256 }).notNull(),
+    body: text("body"),
+    link: varchar("link", { length: 512 }), // In-app path to open, e.g. "/my-requests"
+
+    readAt: timestamp("read_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("notification_user_id_idx").on(table.userId),
+    index("notification_created_at_idx").on(table.createdAt),
+  ],
+);
+
+export const notificationRelations = relations(notification, ({ one }) => ({
+  user: one(user, {
+    fields: [notification.userId],
+    references: [user.id],
+  }),
+}));
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+export const NotificationSchema = createSelectSchema(notification);
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type Notification = typeof notification.$inferSelect;
+export type NewNotification = typeof notification.$inferInsert;
+export type NotificationType = (typeof notificationTypeEnum.enumValues)[number];
@@ -1,9 +1,11 @@
-import { relations } from "drizzle-orm";
+import type { LineString } from "geojson";
+import { relations, sql } from "drizzle-orm";
 import {
   boolean,
   doublePrecision,
   index,
   integer,
+  jsonb,
   pgEnum,
   pgTable,
   text,
@@ -15,6 +17,7 @@ import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod/v4";
 
 import { user } from "./auth-schema";
+import { geography } from "./postgis";
 
 // ============================================================================
 // ENUMS
@@ -31,6 +34,7 @@ export const driverOfferStatusEnum = pgEnum("driver_offer_status", [
   "accepted",
   "rejected",
   "cancelled",
+  "expired", // Passenger didn't respond before the deadline or departure
 ]);
 
 // ============================================================================
@@ -59,6 +63,15 @@ export const passengerRoute = pgTable(
     toLat: doublePrecision("to_lat").notNull(),
     toLng: doublePrecision("to_lng").notNull(),
 
+    // Spatial copies of the endpoints, kept in sync by Postgres, for
+    // proximity searches in SQL
+    fromPoint: geography("from_point", { type: "Point" }).generatedAlwaysAs(
+      sql`ST_SetSRID(ST_MakePoint(from_lng, from_lat), 4326)::geography`,
+    ),
+    toPoint: geography("to_point", { type: "Point" }).generatedAlwaysAs(
+      sql`ST_SetSRID(ST_MakePoint(to_lng, to_lat), 4326)::geography`,
+    ),
+
     // Desired trip details
     departureTime: timestamp("departure_time", {
       withTimezone: true,
@@ -93,6 +106,8 @@ export const passengerRoute = pgTable(
     index("passenger_route_to_place_id_idx").on(table.toPlaceId),
     index("passenger_route_departure_time_idx").on(table.departureTime),
     index("passenger_route_status_idx").on(table.status),
+    index("passenger_route_from_point_idx").using("gist", table.fromPoint),
+    index("passenger_route_to_point_idx").using("gist", table.toPoint),
   ],
 );
 
@@ -140,8 +155,17 @@ export const driverOffer = pgTable(
     }),
     proposedPricePerSeat: integer("proposed_price_per_seat"), // in cents
 
+    // Driver's planned route from pickup to dropoff, used for the driverRoute
+    // created on acceptance (a straight line is used when missing)
+    routeGeometry: jsonb("route_geometry").$type<LineString>(),
+    distanceKm: doublePrecision("distance_km"),
+    durationMinutes: integer("duration_minutes"),
+
     message: text("message"),
     status: driverOfferStatusEnum("status").notNull().default("pending"),
+    // Response deadline set by the driver; pending offers also expire once
+    // the passenger's departure time has passed
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
 
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -206,6 +230,15 @@ export const CreateDriverOfferSchema = createInsertSchema(driverOffer, {
   proposedPricePerSeat: z.number().int().min(0).optional(),
   proposedDepartureTime: z.coerce.date().optional(),
   message: z.string().max(500).optional(),
+  expiresAt: z.coerce.date().optional(),
+  routeGeometry: z
+    .object({
+      type: z.literal("LineString"),
+      coordinates: z.array(z.tuple([z.number(), z.number()])),
+    })
+    .optional(),
+  distanceKm: z.number().optional(),
+  durationMinutes: z.number().int().optional(),
 }).omit({
   id: true,
   driverId: true,
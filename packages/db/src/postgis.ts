@@ -0,0 +1,18 @@
+import { customType } from "drizzle-orm/pg-core";
+
+/**
+ * PostGIS geography column (WGS 84). Distances on it are in meters on the
+ * spheroid, and GiST indexes on it serve `ST_DWithin` searches.
+ *
+ * Values are read back as hex-encoded EWKB. The columns are generated from
+ * the lat/lng and GeoJSON columns next to them, so they are only used inside
+ * SQL and never written directly.
+ */
+export const geography = customType<{
+  data: string;
+  config: { type: "Point" | "LineString" };
+}>({
+  dataType(config) {
+    return `geography(${config?.type ?? "Geometry"}, 4326)`;
+  },
+});
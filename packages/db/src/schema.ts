@@ -4,3 +4,6 @@ export * from "./passenger-route";
 export * from "./booking";
 export * from "./conversation";
 export * from "./review";
+export * from "./waitlist";
+export * from "./no-show";
+export * from "./notification";
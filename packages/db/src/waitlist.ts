@@ -0,0 +1,117 @@
+import { relations, sql } from "drizzle-orm";
+import {
+  doublePrecision,
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+
+import { user } from "./auth-schema";
+import { booking, trip } from "./booking";
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const waitlistStatusEnum = pgEnum("waitlist_status", [
+  "waiting", // In the queue for a seat
+  "offered", // A freed seat is held for this passenger until offerExpiresAt
+  "accepted", // Offer accepted, booking created
+  "declined", // Passenger turned the offer down
+  "expired", // Offer hold ran out, or the trip departed or was cancelled first
+  "cancelled", // Passenger left the waitlist
+]);
+
+// ============================================================================
+// WAITLIST ENTRY TABLE - A passenger queued for a seat on a full trip
+// ============================================================================
+
+export const waitlistEntry = pgTable(
+  "waitlist_entry",
+  {
+    id: uuid("id").notNull().primaryKey().defaultRandom(),
+    tripId: uuid("trip_id")
+      .notNull()
+      .references(() => trip.id, { onDelete: "cascade" }),
+    passengerId: text("passenger_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    // Passenger's pickup/dropoff, copied onto the booking when accepted
+    pickupPlaceId: varchar("pickup_place_id", { length: 256 }),
+    pickupName: varchar("pickup_name", { length: 256 }),
+    pickupLat: doublePrecision("pickup_lat"),
+    pickupLng: doublePrecision("pickup_lng"),
+
+    dropoffPlaceId: varchar("dropoff_place_id", { length: 256 }),
+    dropoffName: varchar("dropoff_name", { length: 256 }),
+    dropoffLat: doublePrecision("dropoff_lat"),
+    dropoffLng: doublePrecision("dropoff_lng"),
+
+    seatsRequested: integer("seats_requested").notNull().default(1),
+    message: text("message"),
+    status: waitlistStatusEnum("status").notNull().default("waiting"),
+
+    // Seat hold while an offer is open
+    offeredAt: timestamp("offered_at", { withTimezone: true }),
+    offerExpiresAt: timestamp("offer_expires_at", { withTimezone: true }),
+
+    // Booking created when the offer was accepted
+    bookingId: uuid("booking_id").references(() => booking.id, {
+      onDelete: "set null",
+    }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("waitlist_entry_trip_id_idx").on(table.tripId),
+    index("waitlist_entry_passenger_id_idx").on(table.passengerId),
+    index("waitlist_entry_status_idx").on(table.status),
+    // One open entry per passenger per trip
+    uniqueIndex("waitlist_entry_open_unique")
+      .on(table.tripId, table.passengerId)
+      .where(sql`${table.status} in ('waiting', 'offered')`),
+  ],
+);
+
+export const waitlistEntryRelations = relations(waitlistEntry, ({ one }) => ({
+  trip: one(trip, {
+    fields: [waitlistEntry.tripId],
+    references: [trip.id],
+  }),
+  passenger: one(user, {
+    fields: [waitlistEntry.passengerId],
+    references: [user.id],
+  }),
+  booking: one(booking, {
+    fields: [waitlistEntry.bookingId],
+    references: [booking.id],
+  }),
+}));
+
+// ============================================================================
+// ZOD SCHEMAS
+// ============================================================================
+
+export const WaitlistEntrySchema = createSelectSchema(waitlistEntry);
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type WaitlistEntry = typeof waitlistEntry.$inferSelect;
+export type NewWaitlistEntry = typeof waitlistEntry.$inferInsert;
+export type WaitlistStatus = (typeof waitlistStatusEnum.enumValues)[number];
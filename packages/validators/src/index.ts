@@ -1,8 +1,19 @@
-import { z } from "zod/v4";
-
-export const unused = z.string().describe(
-  `This lib is currently not used as we use drizzle-zod for simple schemas
-   But as your application grows and you need other validators to share
-   with back and frontend, you can put them in here
-  `,
-);
+/** Amenities a passenger can require of a route in search */
+export const TRIP_AMENITIES = ["bikes", "skis", "pets", "winterTires"] as const;
+
+export type TripAmenity = (typeof TRIP_AMENITIES)[number];
+
+/** Luggage sizes, smallest first */
+export const LUGGAGE_SIZES = ["small", "medium", "large"] as const;
+
+export type LuggageSize = (typeof LUGGAGE_SIZES)[number];
+
+/** Orders a passenger can ask search results in */
+export const TRIP_SORTS = [
+  "bestMatch",
+  "earliest",
+  "cheapest",
+  "topRated",
+] as const;
+
+export type TripSort = (typeof TRIP_SORTS)[number];